@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+  batchToCsv,
+  createCalculator,
+  createLocationResolver,
+  getLowestEmission,
+  parseBatchCsv,
+  runBatch,
+  straightLineRouting,
+  type CalculatorConfig,
+  type EmissionResult,
+  type Location,
+  type ModeComparison,
+  type TransitLoad
+} from '../src/emissions';
+import { createGoogleGeocodingProvider } from '../src/services/geocoding';
+import { createGoogleRoutingProvider, createOsrmRoutingProvider } from '../src/services/routing';
+import { getRouteData } from '../src/services/transit';
+
+// Trip emissions from the command line, for bulk calculations without the browser:
+//   npm run footprint -- calc --from 49.2827,-123.1207 --to 49.2606,-123.2460 --mode bus --json
+//   npm run footprint -- batch trips.csv --output emissions.csv --api http://localhost:8787
+
+const USAGE = `Usage:
+  footprint calc --from <place> --to <place> [--via <place>]... [--mode <id>] [--compare] [--json]
+  footprint batch <trips.csv> [--output <file>] [--mode <id>]
+  footprint modes [--json]
+
+A place is "lat,lng", or an address when --api is given.
+The batch CSV has the columns from and to, and optionally id, mode, passengers and round_trip.
+
+Options:
+  --api <url>            route, plan transit and geocode through the Footprint API server
+  --osrm <url>           route cars, bikes and walks with an OSRM server instead
+  --region <id>          home region for local factors and the grid (e.g. greater-london)
+  --factor-set <version> emission factor set (e.g. 2019.1)
+  --grid <g/kWh>         grid carbon intensity for electric modes
+  --passengers <n>       people sharing the car
+  --round-trip           there and back
+  --transit-load <load>  quiet, average or busy
+  --json                 print JSON instead of text
+`;
+
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`--${name} must be a number, not "${value}"`);
+  return number;
+};
+
+const formatResult = (result: EmissionResult): string => {
+  const passengers = result.passengers ?? 1;
+  const lines = [
+    `${result.transportType}: ${result.distance} km ${result.roundTrip ? 'round trip' : 'one way'} (${result.distanceSource})`,
+    `CO2: ${result.emissions} kg${passengers > 1 ? ` per person of ${passengers}` : ''}` +
+      (result.vehicleEmissions !== undefined && passengers > 1 ? `, ${result.vehicleEmissions} kg for the whole vehicle` : '')
+  ];
+  if (result.duration) lines.push(`Time: about ${result.duration} min`);
+  for (const segment of result.segments ?? []) {
+    lines.push(`  ${segment.from.address} → ${segment.to.address}: ${segment.distance} km by ${segment.transportType}, ${segment.emissions} kg`);
+  }
+  for (const leg of result.legs ?? []) {
+    lines.push(`  ${leg.label}: ${leg.distance} km at ${leg.emissionFactor} g/km, ${leg.emissions} kg`);
+  }
+  return lines.join('\n');
+};
+
+const formatComparison = (comparisons: ModeComparison[]): string => {
+  const lowest = getLowestEmission(comparisons);
+  return [...comparisons]
+    .sort((a, b) => a.emissions - b.emissions)
+    .map(row => `${row.name.padEnd(20)} ${`${row.distance} km`.padStart(11)} ${`${row.emissions} kg`.padStart(10)}${row === lowest ? '  lowest' : ''}`)
+    .join('\n');
+};
+
+const run = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      via: { type: 'string', multiple: true },
+      mode: { type: 'string' },
+      compare: { type: 'boolean' },
+      output: { type: 'string' },
+      api: { type: 'string' },
+      osrm: { type: 'string' },
+      region: { type: 'string' },
+      'factor-set': { type: 'string' },
+      grid: { type: 'string' },
+      passengers: { type: 'string' },
+      'round-trip': { type: 'boolean' },
+      'transit-load': { type: 'string' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const config: CalculatorConfig = {
+    regionId: values.region,
+    factorSettings: {
+      ...(values['factor-set'] ? { version: values['factor-set'] } : {}),
+      ...(values.grid !== undefined ? { gridIntensity: parseNumber(values.grid, 'grid') } : {})
+    },
+    tripOptions: {
+      ...(values.passengers !== undefined ? { passengers: parseNumber(values.passengers, 'passengers') } : {}),
+      ...(values['round-trip'] ? { roundTrip: true } : {}),
+      ...(values['transit-load'] ? { transitLoad: values['transit-load'] as TransitLoad } : {})
+    },
+    routingProvider: values.osrm
+      ? createOsrmRoutingProvider(values.osrm)
+      : values.api ? createGoogleRoutingProvider(values.api) : straightLineRouting,
+    getTransitItinerary: values.api ? (origin, destination) => getRouteData(origin, destination, null, values.api) : undefined
+  };
+  // Fails early on a bad region, factor set or option
+  const calculator = createCalculator(config);
+  const resolveLocation = createLocationResolver(
+    values.api ? createGoogleGeocodingProvider(values.api) : undefined,
+    { ...calculator.region.bounds, countryCode: calculator.region.countryCode }
+  );
+  const requireLocation = async (text: string | undefined, name: string): Promise<Location> => {
+    if (!text) throw new Error(`--${name} is required`);
+    const location = await resolveLocation(text);
+    if (!location) throw new Error(`Could not find location: ${text}${values.api ? '' : ' (use "lat,lng", or --api to look up addresses)'}`);
+    return location;
+  };
+
+  switch (command) {
+    case 'calc': {
+      const stops = [
+        await requireLocation(values.from, 'from'),
+        ...await Promise.all((values.via ?? []).map(via => requireLocation(via, 'via'))),
+        await requireLocation(values.to, 'to')
+      ];
+      if (values.compare) {
+        const comparisons = await calculator.compare(stops);
+        process.stdout.write(values.json ? `${JSON.stringify(comparisons, null, 2)}\n` : `${formatComparison(comparisons)}\n`);
+      } else {
+        const result = await calculator.calculate({ stops, mode: values.mode ?? 'gas-car' });
+        process.stdout.write(values.json ? `${JSON.stringify(result, null, 2)}\n` : `${formatResult(result)}\n`);
+      }
+      return;
+    }
+    case 'batch': {
+      const [input] = rest;
+      if (!input) throw new Error('batch needs a trips CSV file ("-" reads standard input)');
+      const trips = parseBatchCsv(readFileSync(input === '-' ? 0 : input, 'utf8'), values.mode);
+      const rows = await runBatch(trips, config, resolveLocation, (done, total) => {
+        process.stderr.write(`\r${done}/${total} trips`);
+      });
+      process.stderr.write('\n');
+      const csv = batchToCsv(rows);
+      if (values.output) {
+        writeFileSync(values.output, csv);
+      } else {
+        process.stdout.write(csv);
+      }
+      const failed = rows.filter(row => row.error);
+      for (const row of failed) process.stderr.write(`Line ${row.trip.line}: ${row.error}\n`);
+      process.stderr.write(`Calculated ${rows.length - failed.length} of ${rows.length} trips\n`);
+      if (failed.length > 0) process.exitCode = 1;
+      return;
+    }
+    case 'modes': {
+      const modes = calculator.transportTypes.map(({ id, name, emissionFactor, source, year }) => ({ id, name, emissionFactor, source, year }));
+      process.stdout.write(values.json
+        ? `${JSON.stringify(modes, null, 2)}\n`
+        : `${modes.map(mode => `${mode.id.padEnd(16)} ${`${mode.emissionFactor} g/km`.padStart(11)}  ${mode.name}`).join('\n')}\n`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+run(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
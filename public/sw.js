@@ -0,0 +1,70 @@
+// Service worker: keeps the app shell and map tiles available offline.
+// Cache names are shared with src/services/offline.ts, which fills them from the page.
+const SHELL_CACHE = 'footprint-shell-v1';
+const TILE_CACHE = 'footprint-tiles-v1'; // browsed at runtime, trimmed
+const REGION_TILE_CACHE = 'footprint-region-tiles-v1'; // downloaded offline areas, never trimmed
+const MAX_RUNTIME_TILES = 3000;
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpg|jpeg|webp)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(['/', '/manifest.webmanifest', '/icon.svg']))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => ![SHELL_CACHE, TILE_CACHE, REGION_TILE_CACHE].includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Drop the oldest tiles browsed at runtime once their cache grows past its limit; downloaded areas have their own cache
+const trimTiles = async () => {
+  const cache = await caches.open(TILE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - MAX_RUNTIME_TILES, 0)).map(key => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (cacheName === TILE_CACHE) trimTiles();
+  }
+  return response;
+};
+
+// Pages come from the network when possible so new releases load, and from the cached shell otherwise
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    return (await caches.match('/')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin) {
+    // The API needs the network; the app handles its failures itself
+    if (url.pathname.startsWith('/api/')) return;
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (request.destination === 'image' && TILE_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE));
+  }
+});
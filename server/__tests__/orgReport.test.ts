@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { OrgCommute, OrgPrivacySettings } from '../../src/types';
+import { parseCsv } from '../../src/utils/csv';
+import type { StoredMember, StoredOrganisation } from '../orgStore';
+import { summariseOrganisation, toScope3Csv } from '../orgReport';
+
+const organisation = (privacy: Partial<OrgPrivacySettings> = {}): StoredOrganisation => ({
+  id: 'org',
+  name: 'Acme',
+  joinCode: 'ABCDEFGH',
+  adminTokenHash: '',
+  privacy: { showMemberNames: false, locationPrecision: 'none', minGroupSize: 3, ...privacy },
+  createdAt: '2026-01-01T00:00:00.000Z'
+});
+
+const members: StoredMember[] = ['a', 'b', 'c', 'd'].map((id, index) => ({
+  id,
+  orgId: 'org',
+  displayName: id.toUpperCase(),
+  tokenHash: '',
+  joinedAt: `2026-01-0${index + 1}T00:00:00.000Z`
+}));
+
+// 4 commute days, both ways, 46 weeks: 368 one-way trips a year
+const commute = (memberId: string, transportType: string, distance: number, emissionFactor: number): OrgCommute => ({
+  id: `${memberId}-${transportType}`,
+  memberId,
+  start: null,
+  end: null,
+  transportTypeId: transportType.toLowerCase(),
+  transportType,
+  distance,
+  emissions: (distance * emissionFactor) / 1000,
+  emissionFactor,
+  factorSource: `${transportType} factor`,
+  schedule: { daysPerWeek: 5, workFromHomeDays: 1, roundTrip: true, weeksPerYear: 46 },
+  submittedAt: '2026-02-01T00:00:00.000Z'
+});
+
+// Three bus riders and one member who drives, the only one using their mode
+const commutes = [
+  commute('a', 'Bus', 10, 100),
+  commute('b', 'Bus', 5, 100),
+  commute('c', 'Bus', 5, 100),
+  commute('d', 'Gas Car', 8, 200)
+];
+
+describe('summariseOrganisation', () => {
+  it('hides a rare mode used by a single member but keeps it in the totals', () => {
+    const summary = summariseOrganisation(organisation(), members, commutes);
+    expect(summary.modeSplit.map(mode => mode.transportType)).toEqual(['Bus']);
+    expect(summary.modeSplit[0]).toMatchObject({ members: 3, trips: 1104, distance: 7360, emissions: 736, share: 0.75 });
+    expect(summary.annualEmissions).toBe(736 + 588.8);
+    expect(summary.annualDistance).toBe(7360 + 2944);
+    expect(summary.members).toEqual([]);
+  });
+
+  it('shows "Other" once enough members are merged into it', () => {
+    const summary = summariseOrganisation(organisation({ minGroupSize: 2 }), members, [
+      ...commutes.slice(0, 2),
+      commute('c', 'Ferry', 5, 100),
+      commute('d', 'Gas Car', 8, 200)
+    ]);
+    expect(summary.modeSplit.map(mode => [mode.transportType, mode.members])).toEqual([['Other', 2], ['Bus', 2]]);
+  });
+
+  it('lists members individually without a minimum group size', () => {
+    const summary = summariseOrganisation(organisation({ minGroupSize: 1 }), members, commutes);
+    expect(summary.modeSplit.map(mode => mode.transportType)).toEqual(['Bus', 'Gas Car']);
+    expect(summary.members.map(member => member.label)).toEqual(['Member 4', 'Member 1', 'Member 2', 'Member 3']);
+  });
+});
+
+describe('toScope3Csv', () => {
+  it('groups rows by mode and leaves out the figures of a group that is too small', () => {
+    const rows = parseCsv(toScope3Csv(organisation(), members, commutes, 2026));
+    expect(rows.map(row => [row.employee, row.mode, row.annual_emissions_kg_co2e])).toEqual([
+      ['3 members', 'Bus', '736'],
+      ['Fewer than 3 members', 'Other', ''],
+      ['TOTAL', '', '1324.8']
+    ]);
+    expect(rows[1].factor_source).toBe('');
+    expect(rows[1].annual_distance_km).toBe('');
+  });
+
+  it('has one row per commute without a minimum group size', () => {
+    const rows = parseCsv(toScope3Csv(organisation({ minGroupSize: 1, showMemberNames: true }), members, commutes, 2026));
+    expect(rows.map(row => [row.employee, row.mode])).toEqual([
+      ['A', 'Bus'],
+      ['B', 'Bus'],
+      ['C', 'Bus'],
+      ['D', 'Gas Car'],
+      ['TOTAL', '']
+    ]);
+  });
+});
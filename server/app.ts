@@ -0,0 +1,183 @@
+import express, { type Request, type RequestHandler } from 'express';
+import type { ServerConfig } from './config';
+import { createCache } from './cache';
+import { createRateLimiter } from './rateLimit';
+import { createLlmProvider, type ChatMessage, type ChatRequest, type LlmProvider } from './llm';
+import { createFileOrgStore, type OrgStore } from './orgStore';
+import { createOrgRouter } from './orgs';
+
+const MAX_MESSAGES = 20;
+const MAX_CONVERSATION_LENGTH = 20000;
+
+// Validate the body of a feedback request; null when it is malformed or too large
+const parseChatRequest = (body: unknown): ChatRequest | null => {
+  const { messages, system, format } = (body ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_MESSAGES) return null;
+
+  const valid = messages.every(message =>
+    (message?.role === 'user' || message?.role === 'assistant') && typeof message.content === 'string' && message.content.trim());
+  if (!valid || messages[messages.length - 1].role !== 'user') return null;
+  if (system !== undefined && typeof system !== 'string') return null;
+
+  const length = messages.reduce((sum: number, message: ChatMessage) => sum + message.content.length, 0) + (system?.length ?? 0);
+  if (length > MAX_CONVERSATION_LENGTH) return null;
+
+  return {
+    messages: messages.map((message: ChatMessage) => ({ role: message.role, content: message.content })),
+    system: system || undefined,
+    format: format === 'json' ? 'json' : 'text'
+  };
+};
+
+const readString = (req: Request, name: string): string | undefined => {
+  const value = req.query[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const readCoordinates = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const [lat, lng] = value.split(',').map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? `${lat},${lng}` : undefined;
+};
+
+// The API the frontend talks to: keys stay here and upstream answers are cached
+export const createApp = (
+  config: ServerConfig,
+  llm: LlmProvider = createLlmProvider(config),
+  orgStore: OrgStore = createFileOrgStore(config.orgDataFile)
+) => {
+  const app = express();
+  const cache = createCache<unknown>(config.cacheTtlMs);
+
+  app.set('trust proxy', 'loopback');
+  app.use(express.json({ limit: '100kb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok', googleMaps: Boolean(config.googleMapsApiKey), llm: llm.configured ? llm.name : null });
+  });
+
+  app.use('/api', createRateLimiter(config.rateLimit));
+
+  // Forward a request to a Google Maps web service with the key added server-side.
+  // `buildParams` picks the allowed query parameters and returns null when the request is invalid.
+  const proxyGoogleMaps = (path: string, buildParams: (req: Request) => URLSearchParams | null): RequestHandler => async (req, res) => {
+    const params = buildParams(req);
+    if (!params) {
+      res.status(400).json({ error: 'Missing or invalid query parameters' });
+      return;
+    }
+
+    const cacheKey = `${path}?${params}`;
+    const cached = cache.get(cacheKey);
+    if (cached) {
+      res.set('X-Cache', 'HIT').json(cached);
+      return;
+    }
+
+    if (!config.googleMapsApiKey) {
+      res.status(503).json({ error: 'Google Maps API key is not configured' });
+      return;
+    }
+
+    try {
+      params.set('key', config.googleMapsApiKey);
+      const response = await fetch(`${config.googleMapsUrl}${path}?${params}`);
+      const data = await response.json() as { status?: string };
+
+      // Cache answers only, not quota or request errors
+      if (response.ok && (data.status === 'OK' || data.status === 'ZERO_RESULTS')) {
+        cache.set(cacheKey, data);
+      }
+      res.status(response.ok ? 200 : 502).set('X-Cache', 'MISS').json(data);
+    } catch (error) {
+      console.error(`Error calling ${path}:`, error);
+      res.status(502).json({ error: 'Upstream request failed' });
+    }
+  };
+
+  app.get('/api/geocode', proxyGoogleMaps('/maps/api/geocode/json', (req) => {
+    const address = readString(req, 'address');
+    if (!address) return null;
+    const params = new URLSearchParams({ address });
+    const bounds = readString(req, 'bounds');
+    if (bounds) params.set('bounds', bounds);
+    const region = readString(req, 'region');
+    if (region && /^[a-z]{2}$/.test(region)) params.set('region', region);
+    return params;
+  }));
+
+  app.get('/api/reverse-geocode', proxyGoogleMaps('/maps/api/geocode/json', (req) => {
+    const latlng = readCoordinates(`${readString(req, 'lat')},${readString(req, 'lng')}`);
+    return latlng ? new URLSearchParams({ latlng }) : null;
+  }));
+
+  app.get('/api/directions', proxyGoogleMaps('/maps/api/directions/json', (req) => {
+    const origin = readCoordinates(readString(req, 'origin'));
+    const destination = readCoordinates(readString(req, 'destination'));
+    const mode = readString(req, 'mode') || 'driving';
+    if (!origin || !destination || !['driving', 'transit', 'walking', 'bicycling'].includes(mode)) return null;
+    const params = new URLSearchParams({ origin, destination, mode });
+    // Transit can be planned to leave at or arrive by a time (unix seconds), with several alternatives
+    const departureTime = readString(req, 'departure_time');
+    const arrivalTime = readString(req, 'arrival_time');
+    if (arrivalTime && /^\d+$/.test(arrivalTime)) {
+      params.set('arrival_time', arrivalTime);
+    } else if (departureTime && /^(\d+|now)$/.test(departureTime)) {
+      params.set('departure_time', departureTime);
+    }
+    if (readString(req, 'alternatives') === 'true') params.set('alternatives', 'true');
+    return params;
+  }));
+
+  // Stream the LLM's reply to a conversation about a trip as plain text chunks
+  app.post('/api/feedback', async (req, res) => {
+    const request = parseChatRequest(req.body);
+    if (!request) {
+      res.status(400).json({ error: `A conversation of up to ${MAX_MESSAGES} messages and ${MAX_CONVERSATION_LENGTH} characters, ending with the user, is required` });
+      return;
+    }
+
+    const cacheKey = `feedback:${JSON.stringify(request)}`;
+    const cached = cache.get(cacheKey);
+    if (typeof cached === 'string') {
+      res.type('text/plain').set('X-Cache', 'HIT').send(cached);
+      return;
+    }
+
+    if (!llm.configured) {
+      res.status(503).json({ error: `${llm.name} is not configured` });
+      return;
+    }
+
+    // Stop generating when the client goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    let reply = '';
+    try {
+      for await (const chunk of llm.streamChat(request, controller.signal)) {
+        if (!res.headersSent) {
+          res.status(200).type('text/plain').set({ 'X-Cache': 'MISS', 'Cache-Control': 'no-cache' });
+        }
+        reply += chunk;
+        res.write(chunk);
+      }
+      if (reply) cache.set(cacheKey, reply);
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`Error calling ${llm.name}:`, error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(502).json({ error: 'Feedback service request failed' });
+      }
+    }
+  });
+
+  app.use('/api/orgs', createOrgRouter(orgStore));
+
+  return app;
+};
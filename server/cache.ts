@@ -0,0 +1,29 @@
+export interface ResponseCache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+}
+
+// In-memory cache with a time-to-live; the oldest entry is dropped once it is full
+export const createCache = <T>(ttlMs: number, maxEntries = 500): ResponseCache<T> => {
+  const entries = new Map<string, { value: T; expires: number }>();
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expires <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+      entries.set(key, { value, expires: Date.now() + ttlMs });
+    }
+  };
+};
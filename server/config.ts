@@ -0,0 +1,47 @@
+export interface RateLimitConfig {
+  windowMs: number;
+  max: number; // requests per client per window
+}
+
+export interface ServerConfig {
+  port: number;
+  googleMapsApiKey: string;
+  geminiApiKey: string;
+  // Upstream base URLs, overridable so the server can run against mocked services
+  googleMapsUrl: string;
+  geminiUrl: string;
+  geminiModel: string;
+  // Which LLM answers /api/feedback: Gemini, any OpenAI-compatible chat API (e.g. a local model server), or a canned mock
+  llmProvider: 'gemini' | 'openai' | 'mock';
+  openAiUrl: string;
+  openAiApiKey: string;
+  openAiModel: string;
+  rateLimit: RateLimitConfig;
+  cacheTtlMs: number;
+  orgDataFile: string; // JSON file holding organisation workspaces
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Read the server configuration from environment variables
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => ({
+  port: readNumber(env.PORT, 8787),
+  googleMapsApiKey: env.GOOGLE_MAPS_API_KEY || '',
+  geminiApiKey: env.GEMINI_API_KEY || '',
+  googleMapsUrl: (env.GOOGLE_MAPS_API_URL || 'https://maps.googleapis.com').replace(/\/$/, ''),
+  geminiUrl: (env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com').replace(/\/$/, ''),
+  geminiModel: env.GEMINI_MODEL || 'gemini-1.5-flash',
+  llmProvider: env.LLM_PROVIDER === 'openai' || env.LLM_PROVIDER === 'mock' ? env.LLM_PROVIDER : 'gemini',
+  openAiUrl: (env.OPENAI_API_URL || 'https://api.openai.com').replace(/\/$/, ''),
+  openAiApiKey: env.OPENAI_API_KEY || '',
+  openAiModel: env.OPENAI_MODEL || 'gpt-4o-mini',
+  rateLimit: {
+    windowMs: readNumber(env.RATE_LIMIT_WINDOW_MS, 60_000),
+    max: readNumber(env.RATE_LIMIT_MAX, 60)
+  },
+  cacheTtlMs: readNumber(env.CACHE_TTL_MS, 10 * 60_000),
+  orgDataFile: env.ORG_DATA_FILE || 'data/organisations.json'
+});
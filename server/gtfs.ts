@@ -0,0 +1,460 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseCsv } from '../src/utils/csv';
+import { haversineDistance } from '../src/utils/geo';
+import { encodePolyline } from './polyline';
+
+// A stand-in transit planner over a local GTFS feed, answering in the shape of the Google Directions API
+// so the app can be tested offline against real-looking schedules. See server/gtfs-sample for a small feed.
+
+interface GtfsStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+interface GtfsRoute {
+  shortName: string;
+  longName: string;
+  type: number; // GTFS route_type
+  color?: string;
+}
+
+interface GtfsTrip {
+  id: string;
+  routeId: string;
+  serviceId: string;
+  headsign: string;
+}
+
+interface StopTime {
+  stopId: string;
+  arrival: number; // seconds after midnight of the service day, may pass 24:00
+  departure: number;
+}
+
+interface GtfsService {
+  days: boolean[]; // Monday to Sunday
+  start: string; // YYYYMMDD
+  end: string;
+}
+
+interface GtfsFeed {
+  timeZone: string;
+  stops: Map<string, GtfsStop>;
+  routes: Map<string, GtfsRoute>;
+  trips: GtfsTrip[];
+  stopTimes: Map<string, StopTime[]>; // by trip, in stop sequence
+  frequencies: Map<string, { start: number; end: number; headway: number }[]>; // by template trip
+  services: Map<string, GtfsService>;
+  exceptions: Map<string, Map<string, boolean>>; // by date, then service id: whether the service runs
+}
+
+// One run of a trip; trips with frequencies have one per departure
+interface TripRun {
+  trip: GtfsTrip;
+  times: StopTime[];
+}
+
+// Travel between consecutive stops of a run
+interface Connection {
+  run: TripRun;
+  index: number; // the connection leaves run.times[index]
+  from: string;
+  to: string;
+  departure: number;
+  arrival: number;
+}
+
+// How a stop was reached in the search, linked back to the origin
+interface Label {
+  time: number;
+  stop: string;
+  prev: Label | null;
+  ride?: { run: TripRun; board: number; alight: number };
+  walk?: number; // metres walked to reach the stop from prev, or from the origin
+}
+
+interface Journey {
+  last: Label;
+  egress: number; // metres from the last stop to the destination
+  departure: number; // leaving the origin
+  arrival: number; // at the destination
+}
+
+export interface TransitPlanRequest {
+  origin: [number, number];
+  destination: [number, number];
+  departureTime?: number; // unix seconds
+  arrivalTime?: number; // unix seconds; plans to arrive by then instead
+  alternatives: boolean;
+}
+
+const WALK_SPEED = 5 / 3.6; // m/s
+const WALK_CIRCUITY = 1.3; // streets are longer than the straight line
+const MAX_ACCESS_METRES = 1500;
+const TRANSFER_METRES = 300;
+const MIN_TRANSFER_SECONDS = 60;
+const MAX_RIDES = 4;
+const MAX_ALTERNATIVES = 4;
+const ARRIVE_BY_WINDOW_SECONDS = 2 * 3600;
+const MAX_SEARCHES = 40;
+
+const vehicles: Record<number, { name: string; type: string }> = {
+  0: { name: 'Tram', type: 'TRAM' },
+  1: { name: 'Subway', type: 'SUBWAY' },
+  2: { name: 'Train', type: 'RAIL' },
+  3: { name: 'Bus', type: 'BUS' },
+  4: { name: 'Ferry', type: 'FERRY' },
+  11: { name: 'Trolleybus', type: 'TROLLEYBUS' }
+};
+
+const readTable = (dir: string, name: string, required = true): Record<string, string>[] => {
+  const path = join(dir, `${name}.txt`);
+  if (!existsSync(path)) {
+    if (required) throw new Error(`GTFS feed in ${dir} has no ${name}.txt`);
+    return [];
+  }
+  return parseCsv(readFileSync(path, 'utf8'));
+};
+
+const parseTime = (value: string): number => {
+  const [hours, minutes, seconds] = value.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + (seconds || 0);
+};
+
+const loadGtfsFeed = (dir: string): GtfsFeed => {
+  const stopTimes = new Map<string, (StopTime & { sequence: number })[]>();
+  for (const record of readTable(dir, 'stop_times')) {
+    if (!record.arrival_time && !record.departure_time) continue; // untimed stops aren't interpolated
+    const times = stopTimes.get(record.trip_id) ?? [];
+    times.push({
+      stopId: record.stop_id,
+      arrival: parseTime(record.arrival_time || record.departure_time),
+      departure: parseTime(record.departure_time || record.arrival_time),
+      sequence: Number(record.stop_sequence)
+    });
+    stopTimes.set(record.trip_id, times);
+  }
+
+  const frequencies = new Map<string, { start: number; end: number; headway: number }[]>();
+  for (const record of readTable(dir, 'frequencies', false)) {
+    const headway = Number(record.headway_secs);
+    if (!(headway > 0)) continue;
+    frequencies.set(record.trip_id, [
+      ...(frequencies.get(record.trip_id) ?? []),
+      { start: parseTime(record.start_time), end: parseTime(record.end_time), headway }
+    ]);
+  }
+
+  const exceptions = new Map<string, Map<string, boolean>>();
+  for (const record of readTable(dir, 'calendar_dates', false)) {
+    const services = exceptions.get(record.date) ?? new Map<string, boolean>();
+    services.set(record.service_id, record.exception_type === '1');
+    exceptions.set(record.date, services);
+  }
+
+  const [agency] = readTable(dir, 'agency');
+  return {
+    timeZone: agency?.agency_timezone || 'UTC',
+    stops: new Map(readTable(dir, 'stops').map(record => [record.stop_id, {
+      id: record.stop_id,
+      name: record.stop_name,
+      lat: Number(record.stop_lat),
+      lng: Number(record.stop_lon)
+    }])),
+    routes: new Map(readTable(dir, 'routes').map(record => [record.route_id, {
+      shortName: record.route_short_name,
+      longName: record.route_long_name,
+      type: Number(record.route_type),
+      color: record.route_color ? `#${record.route_color}` : undefined
+    }])),
+    trips: readTable(dir, 'trips').map(record => ({
+      id: record.trip_id,
+      routeId: record.route_id,
+      serviceId: record.service_id,
+      headsign: record.trip_headsign
+    })),
+    stopTimes: new Map([...stopTimes].map(([tripId, times]) => [
+      tripId,
+      times.sort((a, b) => a.sequence - b.sequence).map(({ stopId, arrival, departure }) => ({ stopId, arrival, departure }))
+    ])),
+    frequencies,
+    services: new Map(readTable(dir, 'calendar', false).map(record => [record.service_id, {
+      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(day => record[day] === '1'),
+      start: record.start_date,
+      end: record.end_date
+    }])),
+    exceptions
+  };
+};
+
+// Date, weekday (0 = Monday) and seconds since midnight of a moment in the feed's time zone
+const getLocalTime = (unix: number, timeZone: string) => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(unix * 1000)).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}${parts.month}${parts.day}`,
+    weekday: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(parts.weekday),
+    seconds: Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second)
+  };
+};
+
+const walkMetres = (from: [number, number], to: [number, number]) =>
+  Math.round(haversineDistance(from[0], from[1], to[0], to[1]) * 1000 * WALK_CIRCUITY);
+
+const walkSeconds = (metres: number) => Math.round(metres / WALK_SPEED);
+
+const formatDuration = (seconds: number) => `${Math.max(Math.round(seconds / 60), 1)} mins`;
+
+// Plans transit trips over a feed loaded from `dir`
+export const createGtfsPlanner = (dir: string) => {
+  const feed = loadGtfsFeed(dir);
+  const stops = [...feed.stops.values()];
+  const connectionsByDate = new Map<string, Connection[]>();
+  const timeFormat = new Intl.DateTimeFormat('en-US', { timeZone: feed.timeZone, hour: 'numeric', minute: '2-digit' });
+
+  // Stops close enough to walk between when changing vehicles
+  const transfers = new Map(stops.map(stop => [stop.id, stops
+    .filter(other => other.id !== stop.id)
+    .map(other => [other.id, walkMetres([stop.lat, stop.lng], [other.lat, other.lng])] as const)
+    .filter(([, metres]) => metres <= TRANSFER_METRES)]));
+
+  const runsOn = (serviceId: string, date: string, weekday: number): boolean => {
+    const exception = feed.exceptions.get(date)?.get(serviceId);
+    if (exception !== undefined) return exception;
+    const service = feed.services.get(serviceId);
+    if (!service) return feed.services.size === 0 && feed.exceptions.size === 0;
+    return service.days[weekday] && date >= service.start && date <= service.end;
+  };
+
+  // Every connection of the runs operating on a service day, by departure time
+  const getConnections = (date: string, weekday: number): Connection[] => {
+    const cached = connectionsByDate.get(date);
+    if (cached) return cached;
+
+    const runs: TripRun[] = [];
+    for (const trip of feed.trips) {
+      const times = feed.stopTimes.get(trip.id);
+      if (!times || times.length < 2 || !runsOn(trip.serviceId, date, weekday)) continue;
+      const frequencies = feed.frequencies.get(trip.id);
+      if (!frequencies) {
+        runs.push({ trip, times });
+        continue;
+      }
+      // Frequency-based trips repeat the template's stop times from each start
+      for (const { start, end, headway } of frequencies) {
+        for (let first = start; first < end; first += headway) {
+          const shift = first - times[0].departure;
+          runs.push({ trip, times: times.map(time => ({ ...time, arrival: time.arrival + shift, departure: time.departure + shift })) });
+        }
+      }
+    }
+
+    const connections = runs.flatMap(run => run.times.slice(0, -1).map((time, index) => ({
+      run,
+      index,
+      from: time.stopId,
+      to: run.times[index + 1].stopId,
+      departure: time.departure,
+      arrival: run.times[index + 1].arrival
+    })));
+    connections.sort((a, b) => a.departure - b.departure);
+    connectionsByDate.set(date, connections);
+    return connections;
+  };
+
+  const getLabels = (last: Label): Label[] => {
+    const labels: Label[] = [];
+    for (let label: Label | null = last; label; label = label.prev) labels.unshift(label);
+    return labels;
+  };
+
+  // Leave the origin just in time for the first vehicle
+  const getDeparture = (last: Label): number => {
+    const [access, firstRide] = getLabels(last);
+    const ride = firstRide?.ride;
+    return ride ? ride.run.times[ride.board].departure - walkSeconds(access.walk ?? 0) : access.time;
+  };
+
+  // Earliest arrivals with one more vehicle per round (RAPTOR over a sorted connection list), so each round that
+  // arrives sooner adds a journey: the fewest-transfer one first, the fastest last
+  const searchJourneys = (connections: Connection[], request: TransitPlanRequest, departure: number): Journey[] => {
+    let previous = new Map<string, Label>();
+    const egress = new Map<string, number>();
+    for (const stop of stops) {
+      const access = walkMetres(request.origin, [stop.lat, stop.lng]);
+      if (access <= MAX_ACCESS_METRES) {
+        previous.set(stop.id, { time: departure + walkSeconds(access), stop: stop.id, prev: null, walk: access });
+      }
+      const metres = walkMetres([stop.lat, stop.lng], request.destination);
+      if (metres <= MAX_ACCESS_METRES) egress.set(stop.id, metres);
+    }
+
+    const journeys: Journey[] = [];
+    let best = Infinity;
+    for (let round = 1; round <= MAX_RIDES && previous.size > 0; round++) {
+      const current = new Map(previous);
+      const boarded = new Map<TripRun, { label: Label; index: number }>();
+      const improved = new Set<string>();
+
+      for (const connection of connections) {
+        if (connection.departure < departure) continue;
+        let boarding = boarded.get(connection.run);
+        if (!boarding) {
+          // Board only from stops reached with one vehicle fewer
+          const label = previous.get(connection.from);
+          if (!label || label.time + (label.ride ? MIN_TRANSFER_SECONDS : 0) > connection.departure) continue;
+          boarding = { label, index: connection.index };
+          boarded.set(connection.run, boarding);
+        }
+        const existing = current.get(connection.to);
+        if (!existing || connection.arrival < existing.time) {
+          current.set(connection.to, {
+            time: connection.arrival,
+            stop: connection.to,
+            prev: boarding.label,
+            ride: { run: connection.run, board: boarding.index, alight: connection.index + 1 }
+          });
+          improved.add(connection.to);
+        }
+      }
+
+      for (const stopId of improved) {
+        const label = current.get(stopId)!;
+        for (const [nearbyId, metres] of transfers.get(stopId) ?? []) {
+          const time = label.time + walkSeconds(metres);
+          const existing = current.get(nearbyId);
+          if (!existing || time < existing.time) current.set(nearbyId, { time, stop: nearbyId, prev: label, walk: metres });
+        }
+      }
+
+      let arrival: Journey | null = null;
+      for (const [stopId, metres] of egress) {
+        const label = current.get(stopId);
+        if (!label?.prev) continue; // walking the whole way isn't a transit journey
+        const time = label.time + walkSeconds(metres);
+        if (!arrival || time < arrival.arrival) arrival = { last: label, egress: metres, departure: 0, arrival: time };
+      }
+      if (arrival && arrival.arrival < best) {
+        best = arrival.arrival;
+        journeys.push({ ...arrival, departure: getDeparture(arrival.last) });
+      }
+      previous = current;
+    }
+    return journeys;
+  };
+
+  const getSignature = (journey: Journey) => getLabels(journey.last)
+    .map(label => (label.ride ? `${label.ride.run.trip.id}@${label.ride.run.times[label.ride.board].departure}` : label.stop))
+    .join('>');
+
+  const toTime = (midnight: number, seconds: number) => {
+    const value = midnight + seconds;
+    return { value, text: timeFormat.format(new Date(value * 1000)), time_zone: feed.timeZone };
+  };
+
+  const point = (stopId: string): [number, number] => {
+    const stop = feed.stops.get(stopId)!;
+    return [stop.lat, stop.lng];
+  };
+
+  const walkingStep = (from: [number, number], to: [number, number], metres: number) => ({
+    travel_mode: 'WALKING',
+    distance: { value: metres, text: `${(metres / 1000).toFixed(1)} km` },
+    duration: { value: walkSeconds(metres), text: formatDuration(walkSeconds(metres)) },
+    polyline: { points: encodePolyline([from, to]) }
+  });
+
+  // A journey as a Google Directions route with one leg
+  const toRoute = (journey: Journey, request: TransitPlanRequest, midnight: number) => {
+    const steps = [];
+    let position = request.origin;
+    for (const label of getLabels(journey.last)) {
+      if (label.ride) {
+        const { run, board, alight } = label.ride;
+        const route = feed.routes.get(run.trip.routeId);
+        const path = run.times.slice(board, alight + 1).map(time => point(time.stopId));
+        const metres = Math.round(path.slice(1).reduce((sum, to, index) => sum + haversineDistance(path[index][0], path[index][1], to[0], to[1]) * 1000, 0));
+        const seconds = run.times[alight].arrival - run.times[board].departure;
+        const departureStop = feed.stops.get(run.times[board].stopId)!;
+        const arrivalStop = feed.stops.get(run.times[alight].stopId)!;
+        steps.push({
+          travel_mode: 'TRANSIT',
+          distance: { value: metres, text: `${(metres / 1000).toFixed(1)} km` },
+          duration: { value: seconds, text: formatDuration(seconds) },
+          polyline: { points: encodePolyline(path) },
+          transit_details: {
+            departure_stop: { name: departureStop.name, location: { lat: departureStop.lat, lng: departureStop.lng } },
+            arrival_stop: { name: arrivalStop.name, location: { lat: arrivalStop.lat, lng: arrivalStop.lng } },
+            departure_time: toTime(midnight, run.times[board].departure),
+            arrival_time: toTime(midnight, run.times[alight].arrival),
+            headsign: run.trip.headsign,
+            num_stops: alight - board,
+            line: {
+              short_name: route?.shortName,
+              name: route?.longName,
+              color: route?.color,
+              vehicle: vehicles[route?.type ?? -1] ?? { name: 'Transit', type: 'OTHER' }
+            }
+          }
+        });
+      } else if (label.walk) {
+        steps.push(walkingStep(position, point(label.stop), label.walk));
+      }
+      position = point(label.stop);
+    }
+    if (journey.egress > 0) steps.push(walkingStep(position, request.destination, journey.egress));
+
+    return {
+      summary: '',
+      overview_polyline: { points: encodePolyline([request.origin, request.destination]) },
+      legs: [{
+        departure_time: toTime(midnight, journey.departure),
+        arrival_time: toTime(midnight, journey.arrival),
+        distance: { value: steps.reduce((sum, step) => sum + step.distance.value, 0) },
+        duration: { value: journey.arrival - journey.departure },
+        steps
+      }]
+    };
+  };
+
+  // Itineraries leaving from the requested time, or the latest ones arriving by it
+  const plan = (request: TransitPlanRequest) => {
+    const target = request.arrivalTime ?? request.departureTime ?? Math.floor(Date.now() / 1000);
+    const local = getLocalTime(target, feed.timeZone);
+    const midnight = target - local.seconds;
+    const connections = getConnections(local.date, local.weekday);
+    const limit = request.alternatives ? MAX_ALTERNATIVES : 1;
+    const arriveBy = request.arrivalTime !== undefined;
+
+    const found = new Map<string, Journey>();
+    let time = arriveBy ? Math.max(local.seconds - ARRIVE_BY_WINDOW_SECONDS, 0) : local.seconds;
+    for (let search = 0; search < MAX_SEARCHES; search++) {
+      const journeys = searchJourneys(connections, request, time);
+      const fitting = arriveBy ? journeys.filter(journey => journey.arrival <= local.seconds) : journeys;
+      for (const journey of fitting) found.set(getSignature(journey), journey);
+      if (journeys.length === 0 || (arriveBy ? fitting.length === 0 : found.size >= limit)) break;
+      // Search again just after the earliest departure found
+      time = Math.min(...journeys.map(journey => journey.departure)) + 60;
+    }
+
+    // Soonest arrival first when leaving at a time, latest departure first when arriving by one
+    const journeys = arriveBy
+      ? [...found.values()].sort((a, b) => b.departure - a.departure)
+      : [...found.values()].sort((a, b) => a.arrival - b.arrival || b.departure - a.departure);
+    return journeys.slice(0, limit).map(journey => toRoute(journey, request, midnight));
+  };
+
+  return { plan };
+};
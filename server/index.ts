@@ -0,0 +1,13 @@
+import { createApp } from './app';
+import { loadConfig } from './config';
+import { createLlmProvider } from './llm';
+
+const config = loadConfig();
+const llm = createLlmProvider(config);
+
+if (!config.googleMapsApiKey) console.warn('GOOGLE_MAPS_API_KEY is not set; geocoding and directions will return 503');
+if (!llm.configured) console.warn(`${llm.name} is not configured (see LLM_PROVIDER); AI feedback will return 503`);
+
+createApp(config, llm).listen(config.port, () => {
+  console.log(`API server listening on http://localhost:${config.port} (feedback: ${llm.name})`);
+});
@@ -0,0 +1,146 @@
+import type { ServerConfig } from './config';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  system?: string;
+  format: 'json' | 'text'; // 'json' asks the model for a single JSON object
+}
+
+// A chat model that streams its reply
+export interface LlmProvider {
+  name: string;
+  configured: boolean;
+  // Yields the reply text in chunks as the model produces it
+  streamChat: (request: ChatRequest, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+interface OpenAiChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+// Yield the `data:` payloads of a server-sent event stream
+async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+  if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+}
+
+// Google Gemini through the Generative Language REST API
+export const createGeminiProvider = (config: ServerConfig): LlmProvider => ({
+  name: `Gemini (${config.geminiModel})`,
+  configured: Boolean(config.geminiApiKey),
+  streamChat: async function* ({ messages, system, format }, signal) {
+    const response = await fetch(
+      `${config.geminiUrl}/v1beta/models/${config.geminiModel}:streamGenerateContent?alt=sse&key=${config.geminiApiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal,
+        body: JSON.stringify({
+          contents: messages.map(message => ({ role: message.role === 'assistant' ? 'model' : 'user', parts: [{ text: message.content }] })),
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          generationConfig: format === 'json' ? { responseMimeType: 'application/json' } : undefined
+        })
+      }
+    );
+    if (!response.ok) throw new Error(`Gemini request failed with status ${response.status}`);
+
+    for await (const data of readServerSentEvents(response)) {
+      const chunk = JSON.parse(data) as GeminiChunk;
+      const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+      if (text) yield text;
+    }
+  }
+});
+
+// Any OpenAI-compatible chat completions API, including local model servers
+export const createOpenAiProvider = (config: ServerConfig): LlmProvider => ({
+  name: `OpenAI-compatible (${config.openAiModel})`,
+  // Local servers usually need no key, so only a non-default URL counts as configured without one
+  configured: Boolean(config.openAiApiKey) || config.openAiUrl !== 'https://api.openai.com',
+  streamChat: async function* ({ messages, system, format }, signal) {
+    const response = await fetch(`${config.openAiUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.openAiApiKey ? { Authorization: `Bearer ${config.openAiApiKey}` } : {})
+      },
+      signal,
+      body: JSON.stringify({
+        model: config.openAiModel,
+        stream: true,
+        messages: [...(system ? [{ role: 'system', content: system }] : []), ...messages],
+        response_format: format === 'json' ? { type: 'json_object' } : undefined
+      })
+    });
+    if (!response.ok) throw new Error(`Chat completion request failed with status ${response.status}`);
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+      const text = (JSON.parse(data) as OpenAiChunk).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+});
+
+// Canned reply used by the mock provider and the mock upstream. The savings figures are
+// deliberately rough so the client's cross-check against its own numbers is exercised.
+export const createMockReply = ({ messages, format }: ChatRequest): string => {
+  if (format === 'json') {
+    return JSON.stringify({
+      summary: 'Mock analysis: this trip is a good candidate for a lower-carbon mode.',
+      alternatives: [
+        { mode: 'Cycling', estimatedSavingsKg: 1, note: 'Comfortable for most short urban trips.' },
+        { mode: 'Bus', estimatedSavingsKg: 0.5, note: 'Frequent service covers most of the route.' }
+      ],
+      tips: ['Combine errands into one trip.', 'Avoid peak-hour congestion where you can.']
+    });
+  }
+  const question = messages[messages.length - 1]?.content ?? '';
+  return `Mock answer to "${question.slice(0, 80)}": walking or cycling part of the way is the simplest way to cut this trip's emissions.`;
+};
+
+export const createMockProvider = (): LlmProvider => ({
+  name: 'Mock',
+  configured: true,
+  streamChat: async function* (request) {
+    const reply = createMockReply(request);
+    for (let index = 0; index < reply.length; index += 24) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      yield reply.slice(index, index + 24);
+    }
+  }
+});
+
+// Pick the LLM provider from the server configuration (LLM_PROVIDER)
+export const createLlmProvider = (config: ServerConfig): LlmProvider => {
+  switch (config.llmProvider) {
+    case 'openai':
+      return createOpenAiProvider(config);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(config);
+  }
+};
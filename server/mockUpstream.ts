@@ -0,0 +1,149 @@
+import express from 'express';
+import gazetteer from '../src/data/gazetteer.json';
+import { haversineDistance } from '../src/utils/geo';
+import { createMockReply, type ChatMessage } from './llm';
+import { createGtfsPlanner } from './gtfs';
+import { encodePolyline } from './polyline';
+
+// Stand-in for the Google Maps, Gemini and OpenAI-compatible chat APIs, for running the API server in tests and offline.
+// Point GOOGLE_MAPS_API_URL, GEMINI_API_URL or OPENAI_API_URL at it. With GTFS_DIR set, transit directions are
+// planned on that GTFS feed instead of along a straight line.
+
+const port = Number(process.env.MOCK_PORT) || 8788;
+const speeds: Record<string, number> = { driving: 40, transit: 25, walking: 5, bicycling: 15 }; // km/h
+const gtfsPlanner = process.env.GTFS_DIR ? createGtfsPlanner(process.env.GTFS_DIR) : null;
+
+const parseUnixTime = (value: unknown): number | undefined => {
+  const seconds = Number(value);
+  return value !== undefined && Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+const parsePoint = (value: unknown): [number, number] | null => {
+  const [lat, lng] = String(value).split(',').map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lat, lng] : null;
+};
+
+const toResult = (place: (typeof gazetteer.places)[number]) => ({
+  formatted_address: `${place.name}, ${place.address}`,
+  geometry: { location: { lat: place.lat, lng: place.lng } }
+});
+
+// A step along a straight line, with distances padded to look like a road network
+const createStep = (from: [number, number], to: [number, number], mode: string) => {
+  const meters = Math.round(haversineDistance(from[0], from[1], to[0], to[1]) * 1300);
+  const seconds = Math.round((meters / 1000 / speeds[mode]) * 3600);
+  return {
+    travel_mode: mode.toUpperCase(),
+    distance: { value: meters, text: `${(meters / 1000).toFixed(1)} km` },
+    duration: { value: seconds, text: `${Math.max(Math.round(seconds / 60), 1)} mins` },
+    polyline: { points: encodePolyline([from, to]) }
+  };
+};
+
+const app = express();
+app.use(express.json());
+
+app.get('/maps/api/geocode/json', (req, res) => {
+  if (req.query.latlng) {
+    const point = parsePoint(req.query.latlng);
+    const nearest = point && [...gazetteer.places].sort((a, b) =>
+      haversineDistance(point[0], point[1], a.lat, a.lng) - haversineDistance(point[0], point[1], b.lat, b.lng))[0];
+    res.json(nearest ? { status: 'OK', results: [toResult(nearest)] } : { status: 'ZERO_RESULTS', results: [] });
+    return;
+  }
+
+  const needle = String(req.query.address ?? '').toLowerCase();
+  const results = gazetteer.places.filter(place => `${place.name} ${place.address}`.toLowerCase().includes(needle)).map(toResult);
+  res.json({ status: results.length > 0 ? 'OK' : 'ZERO_RESULTS', results });
+});
+
+app.get('/maps/api/directions/json', (req, res) => {
+  const origin = parsePoint(req.query.origin);
+  const destination = parsePoint(req.query.destination);
+  const mode = String(req.query.mode ?? 'driving');
+  if (!origin || !destination || !speeds[mode]) {
+    res.json({ status: 'INVALID_REQUEST', routes: [] });
+    return;
+  }
+
+  if (mode === 'transit' && gtfsPlanner) {
+    const routes = gtfsPlanner.plan({
+      origin,
+      destination,
+      departureTime: parseUnixTime(req.query.departure_time),
+      arrivalTime: parseUnixTime(req.query.arrival_time),
+      alternatives: req.query.alternatives === 'true'
+    });
+    res.json({ status: routes.length > 0 ? 'OK' : 'ZERO_RESULTS', routes });
+    return;
+  }
+
+  // Transit trips walk a tenth of the way to a bus, ride, and walk the rest
+  const steps = mode === 'transit'
+    ? (() => {
+        const boarding: [number, number] = [origin[0] + (destination[0] - origin[0]) * 0.1, origin[1] + (destination[1] - origin[1]) * 0.1];
+        const alighting: [number, number] = [origin[0] + (destination[0] - origin[0]) * 0.9, origin[1] + (destination[1] - origin[1]) * 0.9];
+        return [
+          createStep(origin, boarding, 'walking'),
+          {
+            ...createStep(boarding, alighting, 'transit'),
+            transit_details: {
+              line: { short_name: '99', name: 'Mock Express', vehicle: { name: 'Bus', type: 'BUS' } },
+              departure_stop: { name: 'Mock Stop A' },
+              arrival_stop: { name: 'Mock Stop B' }
+            }
+          },
+          createStep(alighting, destination, 'walking')
+        ];
+      })()
+    : [createStep(origin, destination, mode)];
+
+  res.json({
+    status: 'OK',
+    routes: [{
+      overview_polyline: { points: encodePolyline([origin, destination]) },
+      legs: [{
+        distance: { value: steps.reduce((sum, step) => sum + step.distance.value, 0) },
+        duration: { value: steps.reduce((sum, step) => sum + step.duration.value, 0) },
+        steps
+      }]
+    }]
+  });
+});
+
+// Replays the canned reply as server-sent events, a few characters per event
+const streamReply = (res: express.Response, reply: string, toEvent: (text: string) => unknown, done?: string) => {
+  res.type('text/event-stream');
+  for (let index = 0; index < reply.length; index += 24) {
+    res.write(`data: ${JSON.stringify(toEvent(reply.slice(index, index + 24)))}\n\n`);
+  }
+  if (done) res.write(`data: ${done}\n\n`);
+  res.end();
+};
+
+// Gemini generateContent / streamGenerateContent; the model path segment includes the method
+app.post('/v1beta/models/:model', (req, res) => {
+  const contents: { role: string; parts: { text: string }[] }[] = req.body.contents ?? [];
+  const reply = createMockReply({
+    messages: contents.map(content => ({ role: content.role === 'model' ? 'assistant' : 'user', content: content.parts.map(part => part.text).join('') })),
+    format: req.body.generationConfig?.responseMimeType === 'application/json' ? 'json' : 'text'
+  });
+  const toEvent = (text: string) => ({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] });
+
+  if (req.params.model.endsWith(':streamGenerateContent')) {
+    streamReply(res, reply, toEvent);
+  } else {
+    res.json(toEvent(reply));
+  }
+});
+
+// OpenAI-compatible chat completions, streamed
+app.post('/v1/chat/completions', (req, res) => {
+  const messages: ChatMessage[] = (req.body.messages ?? []).filter((message: { role: string }) => message.role !== 'system');
+  const reply = createMockReply({ messages, format: req.body.response_format?.type === 'json_object' ? 'json' : 'text' });
+  streamReply(res, reply, text => ({ choices: [{ delta: { content: text } }] }), '[DONE]');
+});
+
+app.listen(port, () => {
+  console.log(`Mock upstream listening on http://localhost:${port}`);
+});
@@ -0,0 +1,203 @@
+import type { OrgCommute, OrgDistanceBand, OrgSummary } from '../src/types';
+import { toCsv, type CsvValue } from '../src/utils/csv';
+import type { StoredMember, StoredOrganisation } from './orgStore';
+
+// One-way commute distance bands, km
+const DISTANCE_BANDS: [number, number | null][] = [[0, 2], [2, 5], [5, 10], [10, 20], [20, 40], [40, null]];
+
+const round = (value: number, digits = 1) => parseFloat(value.toFixed(digits));
+
+// Members in join order, so pseudonyms stay stable as people join
+const getMemberLabels = (organisation: StoredOrganisation, members: StoredMember[]): Map<string, string> => {
+  const sorted = [...members].sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+  return new Map(sorted.map((member, index) => [
+    member.id,
+    organisation.privacy.showMemberNames ? member.displayName : `Member ${index + 1}`
+  ]));
+};
+
+// One-way trips, km and kg CO2 per year; the same projection as the calculator's commute panel (src/services/commute.ts)
+const annualise = ({ schedule, distance, emissions }: OrgCommute) => {
+  const commuteDays = Math.max(schedule.daysPerWeek - schedule.workFromHomeDays, 0);
+  const trips = commuteDays * (schedule.roundTrip ? 2 : 1) * schedule.weeksPerYear;
+  return { trips, distance: trips * distance, emissions: trips * emissions };
+};
+
+interface ModeGroup {
+  transportType: string;
+  memberIds: Set<string>;
+  commutes: OrgCommute[];
+  trips: number; // per year
+  distance: number;
+  emissions: number;
+  hidden: boolean; // an "Other" still too small to show; it only counts towards the totals
+}
+
+// Annual totals by mode; modes used by fewer members than the minimum group size are merged into "Other"
+const groupByMode = (commutes: OrgCommute[], minGroupSize: number): ModeGroup[] => {
+  const newGroup = (transportType: string): ModeGroup => ({
+    transportType, memberIds: new Set<string>(), commutes: [], trips: 0, distance: 0, emissions: 0, hidden: false
+  });
+  const addTo = (group: ModeGroup, commute: OrgCommute) => {
+    const totals = annualise(commute);
+    group.memberIds.add(commute.memberId);
+    group.commutes.push(commute);
+    group.trips += totals.trips;
+    group.distance += totals.distance;
+    group.emissions += totals.emissions;
+  };
+
+  const modes = new Map<string, ModeGroup>();
+  for (const commute of commutes) {
+    const mode = modes.get(commute.transportType) ?? newGroup(commute.transportType);
+    addTo(mode, commute);
+    modes.set(commute.transportType, mode);
+  }
+  const shown: ModeGroup[] = [];
+  const other = newGroup('Other');
+  for (const mode of modes.values()) {
+    if (mode.memberIds.size >= minGroupSize) {
+      shown.push(mode);
+    } else {
+      mode.commutes.forEach(commute => addTo(other, commute));
+    }
+  }
+  if (other.memberIds.size > 0) {
+    shown.push({ ...other, hidden: other.memberIds.size < minGroupSize });
+  }
+  return shown;
+};
+
+export const summariseOrganisation = (
+  organisation: StoredOrganisation,
+  members: StoredMember[],
+  commutes: OrgCommute[]
+): OrgSummary => {
+  const { minGroupSize } = organisation.privacy;
+  const respondents = new Set(commutes.map(commute => commute.memberId));
+
+  const groups = groupByMode(commutes, minGroupSize);
+
+  const totalTrips = groups.reduce((sum, mode) => sum + mode.trips, 0);
+  const annualEmissions = groups.reduce((sum, mode) => sum + mode.emissions, 0);
+  const annualDistance = groups.reduce((sum, mode) => sum + mode.distance, 0);
+  const modeSplit = groups
+    .filter(mode => !mode.hidden)
+    .map(mode => ({
+      transportType: mode.transportType,
+      members: mode.memberIds.size,
+      share: totalTrips > 0 ? round(mode.trips / totalTrips, 3) : 0,
+      trips: Math.round(mode.trips),
+      distance: Math.round(mode.distance),
+      emissions: round(mode.emissions)
+    }))
+    .sort((a, b) => b.emissions - a.emissions);
+
+  // Each member's longest one-way commute, binned
+  const longest = new Map<string, number>();
+  commutes.forEach(commute => longest.set(commute.memberId, Math.max(longest.get(commute.memberId) ?? 0, commute.distance)));
+  const distanceDistribution: OrgDistanceBand[] = DISTANCE_BANDS.map(([min, max]) => {
+    const count = [...longest.values()].filter(distance => distance >= min && (max === null || distance < max)).length;
+    return {
+      label: max === null ? `${min}+ km` : `${min}–${max} km`,
+      min,
+      max,
+      members: count === 0 || count >= minGroupSize ? count : null
+    };
+  });
+
+  // Individual rows only when the organisation doesn't require grouping
+  const labels = getMemberLabels(organisation, members);
+  const memberRows = minGroupSize > 1 ? [] : [...respondents].map(memberId => {
+    const own = commutes.filter(commute => commute.memberId === memberId);
+    return {
+      label: labels.get(memberId) ?? 'Former member',
+      transportTypes: [...new Set(own.map(commute => commute.transportType))],
+      distance: round(Math.max(...own.map(commute => commute.distance)), 2),
+      annualEmissions: round(own.reduce((sum, commute) => sum + annualise(commute).emissions, 0))
+    };
+  }).sort((a, b) => b.annualEmissions - a.annualEmissions);
+
+  return {
+    organisation: { id: organisation.id, name: organisation.name, joinCode: organisation.joinCode },
+    privacy: organisation.privacy,
+    memberCount: members.length,
+    respondents: respondents.size,
+    annualEmissions: round(annualEmissions),
+    annualDistance: Math.round(annualDistance),
+    perCapita: respondents.size > 0 ? round(annualEmissions / respondents.size) : 0,
+    modeSplit,
+    distanceDistribution,
+    members: memberRows
+  };
+};
+
+// GHG Protocol Scope 3 Category 7 (employee commuting), distance-based method: one row per submitted commute
+// with its annual distance, the factor used and annual emissions, then a total row. Names follow the privacy settings.
+// When the organisation requires grouping, rows are per mode instead, grouped as in the summary, with the
+// distance-weighted factor.
+export const toScope3Csv = (
+  organisation: StoredOrganisation,
+  members: StoredMember[],
+  commutes: OrgCommute[],
+  reportingYear: number
+): string => {
+  const { minGroupSize } = organisation.privacy;
+  const labels = getMemberLabels(organisation, members);
+  const rows: CsvValue[][] = [[
+    'reporting_year', 'scope3_category', 'calculation_method', 'employee', 'mode', 'one_way_distance_km', 'commute_days_per_week',
+    'round_trip', 'weeks_per_year', 'annual_trips', 'annual_distance_km', 'emission_factor_kg_co2e_per_pkm', 'factor_source', 'annual_emissions_kg_co2e'
+  ]];
+  const rowStart = [reportingYear, '7 Employee commuting', 'distance-based'];
+  let totalDistance = 0;
+  let totalEmissions = 0;
+
+  if (minGroupSize > 1) {
+    for (const group of groupByMode(commutes, minGroupSize)) {
+      totalDistance += group.distance;
+      totalEmissions += group.emissions;
+      if (group.hidden) {
+        rows.push([...rowStart, `Fewer than ${minGroupSize} members`, group.transportType, '', '', '', '', '', '', '', '', '']);
+        continue;
+      }
+      rows.push([
+        ...rowStart,
+        `${group.memberIds.size} member${group.memberIds.size === 1 ? '' : 's'}`,
+        group.transportType,
+        '',
+        '',
+        '',
+        '',
+        Math.round(group.trips),
+        round(group.distance),
+        group.distance > 0 ? round(group.emissions / group.distance, 4) : '',
+        // The sources would name the modes merged into "Other"
+        group.transportType === 'Other' ? '' : [...new Set(group.commutes.map(commute => commute.factorSource))].join('; '),
+        round(group.emissions, 2)
+      ]);
+    }
+  } else {
+    for (const commute of commutes) {
+      const totals = annualise(commute);
+      totalDistance += totals.distance;
+      totalEmissions += totals.emissions;
+      rows.push([
+        ...rowStart,
+        labels.get(commute.memberId) ?? 'Former member',
+        commute.transportType,
+        commute.distance,
+        Math.max(commute.schedule.daysPerWeek - commute.schedule.workFromHomeDays, 0),
+        commute.schedule.roundTrip ? 'yes' : 'no',
+        commute.schedule.weeksPerYear,
+        Math.round(totals.trips),
+        round(totals.distance),
+        round(commute.emissionFactor / 1000, 4),
+        commute.factorSource,
+        round(totals.emissions, 2)
+      ]);
+    }
+  }
+  rows.push([...rowStart, 'TOTAL', '', '', '', '', '', '', round(totalDistance), '', '', round(totalEmissions, 2)]);
+
+  return toCsv(rows);
+};
@@ -0,0 +1,73 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { OrgCommute, OrgPrivacySettings } from '../src/types';
+
+export interface StoredOrganisation {
+  id: string;
+  name: string;
+  joinCode: string;
+  adminTokenHash: string;
+  privacy: OrgPrivacySettings;
+  createdAt: string;
+}
+
+export interface StoredMember {
+  id: string;
+  orgId: string;
+  displayName: string;
+  tokenHash: string;
+  joinedAt: string;
+}
+
+export interface OrgData {
+  organisations: StoredOrganisation[];
+  members: StoredMember[];
+  commutes: OrgCommute[]; // belong to the organisation of their member
+}
+
+// Where organisations, members and their commutes are kept
+export interface OrgStore {
+  read: () => Promise<OrgData>;
+  // Apply a change and persist it; changes run one at a time
+  update: <T>(change: (data: OrgData) => T) => Promise<T>;
+}
+
+const emptyData = (): OrgData => ({ organisations: [], members: [], commutes: [] });
+
+// A JSON file, rewritten on every change. Fine for a team of tens; swap for a database beyond that.
+export const createFileOrgStore = (path: string): OrgStore => {
+  let data: OrgData | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = async (): Promise<OrgData> => {
+    if (data) return data;
+    try {
+      data = { ...emptyData(), ...JSON.parse(await readFile(path, 'utf8')) } as OrgData;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      data = emptyData();
+    }
+    return data;
+  };
+
+  const save = async (next: OrgData) => {
+    await mkdir(dirname(path), { recursive: true });
+    // Write then rename, so a crash mid-write never leaves a truncated file
+    await writeFile(`${path}.tmp`, JSON.stringify(next, null, 2));
+    await rename(`${path}.tmp`, path);
+  };
+
+  return {
+    read: () => queue.then(load),
+    update: <T>(change: (data: OrgData) => T) => {
+      const run = queue.then(async () => {
+        const current = await load();
+        const result = change(current);
+        await save(current);
+        return result;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    }
+  };
+};
@@ -0,0 +1,296 @@
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import type { CommuteSchedule, Location, OrgCommute, OrgPrivacySettings } from '../src/types';
+import type { OrgData, OrgStore, StoredMember, StoredOrganisation } from './orgStore';
+import { summariseOrganisation, toScope3Csv } from './orgReport';
+
+const MAX_NAME_LENGTH = 80;
+const MAX_COMMUTES_PER_MEMBER = 10;
+const APPROXIMATE_DECIMALS = 2; // about 1 km
+
+const defaultPrivacy: OrgPrivacySettings = { showMemberNames: false, locationPrecision: 'approximate', minGroupSize: 3 };
+
+const newToken = () => randomBytes(24).toString('base64url');
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+// Short and easy to read out: no 0/O or 1/I
+const newJoinCode = () => Array.from(randomBytes(8), byte => 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'[byte % 32]).join('');
+
+const readName = (value: unknown): string | null => {
+  return typeof value === 'string' && value.trim() && value.trim().length <= MAX_NAME_LENGTH ? value.trim() : null;
+};
+
+const readNumber = (value: unknown, min: number, max: number): number | null => {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : null;
+};
+
+const readLocation = (value: unknown): Location | null => {
+  const location = value as Location;
+  return typeof location === 'object' && location !== null
+    && readNumber(location.lat, -90, 90) !== null && readNumber(location.lng, -180, 180) !== null
+    && typeof location.address === 'string'
+    ? { lat: location.lat, lng: location.lng, address: location.address.slice(0, 200) }
+    : null;
+};
+
+const readSchedule = (value: unknown): CommuteSchedule | null => {
+  const schedule = value as CommuteSchedule;
+  if (typeof schedule !== 'object' || schedule === null) return null;
+  const daysPerWeek = readNumber(schedule.daysPerWeek, 0, 7);
+  const workFromHomeDays = readNumber(schedule.workFromHomeDays, 0, 7);
+  const weeksPerYear = readNumber(schedule.weeksPerYear, 0, 52);
+  if (daysPerWeek === null || workFromHomeDays === null || weeksPerYear === null) return null;
+  return { daysPerWeek, workFromHomeDays, roundTrip: Boolean(schedule.roundTrip), weeksPerYear };
+};
+
+const readPrivacy = (value: unknown, current: OrgPrivacySettings): OrgPrivacySettings | null => {
+  const privacy = (value ?? {}) as Partial<OrgPrivacySettings>;
+  const next = { ...current, ...privacy };
+  if (typeof next.showMemberNames !== 'boolean') return null;
+  if (!['exact', 'approximate', 'none'].includes(next.locationPrecision)) return null;
+  const minGroupSize = readNumber(next.minGroupSize, 1, 50);
+  if (minGroupSize === null) return null;
+  return { showMemberNames: next.showMemberNames, locationPrecision: next.locationPrecision, minGroupSize: Math.round(minGroupSize) };
+};
+
+// Locations are reduced before they are stored, so raw home addresses never reach the file
+const applyLocationPrecision = (location: Location | null, precision: OrgPrivacySettings['locationPrecision']): Location | null => {
+  if (!location || precision === 'none') return null;
+  if (precision === 'exact') return location;
+  const lat = parseFloat(location.lat.toFixed(APPROXIMATE_DECIMALS));
+  const lng = parseFloat(location.lng.toFixed(APPROXIMATE_DECIMALS));
+  return { lat, lng, address: `Near ${lat}, ${lng}` };
+};
+
+const readToken = (req: Request): string | null => {
+  const header = req.get('Authorization') ?? '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() || null : null;
+};
+
+const findMember = (data: OrgData, req: Request): StoredMember | undefined => {
+  const token = readToken(req);
+  if (!token) return undefined;
+  const hash = hashToken(token);
+  return data.members.find(member => member.orgId === req.params.orgId && member.tokenHash === hash);
+};
+
+const findAdminOrg = (data: OrgData, req: Request): StoredOrganisation | undefined => {
+  const token = readToken(req);
+  const organisation = data.organisations.find(org => org.id === req.params.orgId);
+  return token && organisation?.adminTokenHash === hashToken(token) ? organisation : undefined;
+};
+
+const forbidden = (res: Response) => res.status(403).json({ error: 'Not a member or admin of this organisation' });
+
+// Pass store failures on to Express's error handler instead of leaving the request hanging
+const asyncRoute = (handler: (req: Request, res: Response) => Promise<void>) => (req: Request, res: Response, next: NextFunction) => {
+  handler(req, res).catch(next);
+};
+
+// Members of an organisation and the commutes they submitted
+const getOrgData = (data: OrgData, orgId: string) => {
+  const members = data.members.filter(member => member.orgId === orgId);
+  const memberIds = new Set(members.map(member => member.id));
+  return { members, commutes: data.commutes.filter(commute => memberIds.has(commute.memberId)) };
+};
+
+// Organisation workspaces: members submit commutes, admins see the aggregate and export it.
+// Members authenticate with the token they got when joining, admins with the one from creating the organisation.
+export const createOrgRouter = (store: OrgStore) => {
+  const router = express.Router();
+
+  router.post('/', asyncRoute(async (req, res) => {
+    const name = readName(req.body?.name);
+    const displayName = readName(req.body?.displayName);
+    if (!name || !displayName) {
+      res.status(400).json({ error: `An organisation name and your name (up to ${MAX_NAME_LENGTH} characters) are required` });
+      return;
+    }
+    const adminToken = newToken();
+    const memberToken = newToken();
+    const now = new Date().toISOString();
+    const organisation: StoredOrganisation = {
+      id: randomUUID(),
+      name,
+      joinCode: newJoinCode(),
+      adminTokenHash: hashToken(adminToken),
+      privacy: defaultPrivacy,
+      createdAt: now
+    };
+    const member: StoredMember = { id: randomUUID(), orgId: organisation.id, displayName, tokenHash: hashToken(memberToken), joinedAt: now };
+    await store.update(data => {
+      data.organisations.push(organisation);
+      data.members.push(member);
+    });
+    res.status(201).json({
+      organisation: { id: organisation.id, name, joinCode: organisation.joinCode },
+      memberId: member.id,
+      memberToken,
+      adminToken
+    });
+  }));
+
+  router.post('/join', asyncRoute(async (req, res) => {
+    const joinCode = typeof req.body?.joinCode === 'string' ? req.body.joinCode.trim().toUpperCase() : '';
+    const displayName = readName(req.body?.displayName);
+    if (!displayName) {
+      res.status(400).json({ error: `Your name (up to ${MAX_NAME_LENGTH} characters) is required` });
+      return;
+    }
+    const memberToken = newToken();
+    const joined = await store.update(data => {
+      const organisation = data.organisations.find(org => org.joinCode === joinCode);
+      if (!organisation) return null;
+      const member: StoredMember = {
+        id: randomUUID(),
+        orgId: organisation.id,
+        displayName,
+        tokenHash: hashToken(memberToken),
+        joinedAt: new Date().toISOString()
+      };
+      data.members.push(member);
+      return { organisation, member };
+    });
+    if (!joined) {
+      res.status(404).json({ error: 'No organisation has that join code' });
+      return;
+    }
+    res.status(201).json({
+      organisation: { id: joined.organisation.id, name: joined.organisation.name },
+      memberId: joined.member.id,
+      memberToken
+    });
+  }));
+
+  router.get('/:orgId/commutes', asyncRoute(async (req, res) => {
+    const data = await store.read();
+    const member = findMember(data, req);
+    if (!member) {
+      forbidden(res);
+      return;
+    }
+    res.json(data.commutes.filter(commute => commute.memberId === member.id));
+  }));
+
+  router.post('/:orgId/commutes', asyncRoute(async (req, res) => {
+    const body = req.body ?? {};
+    const transportTypeId = readName(body.transportTypeId);
+    const transportType = readName(body.transportType);
+    const distance = readNumber(body.distance, 0, 1000);
+    const emissions = readNumber(body.emissions, 0, 10000);
+    const emissionFactor = readNumber(body.emissionFactor, 0, 10000);
+    const schedule = readSchedule(body.schedule);
+    if (!transportTypeId || !transportType || distance === null || emissions === null || emissionFactor === null || !schedule) {
+      res.status(400).json({ error: 'A commute needs a transport type, one-way distance and emissions, emission factor and schedule' });
+      return;
+    }
+
+    const saved = await store.update(data => {
+      const member = findMember(data, req);
+      const organisation = data.organisations.find(org => org.id === req.params.orgId);
+      if (!member || !organisation) return 'forbidden';
+      if (data.commutes.filter(commute => commute.memberId === member.id).length >= MAX_COMMUTES_PER_MEMBER) return 'full';
+      const commute: OrgCommute = {
+        id: randomUUID(),
+        memberId: member.id,
+        start: applyLocationPrecision(readLocation(body.start), organisation.privacy.locationPrecision),
+        end: applyLocationPrecision(readLocation(body.end), organisation.privacy.locationPrecision),
+        transportTypeId,
+        transportType,
+        distance,
+        emissions,
+        emissionFactor,
+        factorSource: typeof body.factorSource === 'string' ? body.factorSource.slice(0, 200) : '',
+        schedule,
+        submittedAt: new Date().toISOString()
+      };
+      data.commutes.push(commute);
+      return commute;
+    });
+    if (saved === 'forbidden') {
+      forbidden(res);
+    } else if (saved === 'full') {
+      res.status(409).json({ error: `Up to ${MAX_COMMUTES_PER_MEMBER} commutes per member; remove one first` });
+    } else {
+      res.status(201).json(saved);
+    }
+  }));
+
+  router.delete('/:orgId/commutes/:commuteId', asyncRoute(async (req, res) => {
+    const removed = await store.update(data => {
+      const member = findMember(data, req);
+      const index = data.commutes.findIndex(commute => commute.id === req.params.commuteId && commute.memberId === member?.id);
+      if (!member || index === -1) return false;
+      data.commutes.splice(index, 1);
+      return true;
+    });
+    if (removed) {
+      res.status(204).end();
+    } else {
+      res.status(404).json({ error: 'No such commute' });
+    }
+  }));
+
+  // Leaving removes the member and everything they submitted
+  router.delete('/:orgId/members/me', asyncRoute(async (req, res) => {
+    const left = await store.update(data => {
+      const member = findMember(data, req);
+      if (!member) return false;
+      data.members = data.members.filter(other => other.id !== member.id);
+      data.commutes = data.commutes.filter(commute => commute.memberId !== member.id);
+      return true;
+    });
+    if (left) {
+      res.status(204).end();
+    } else {
+      forbidden(res);
+    }
+  }));
+
+  router.get('/:orgId/summary', asyncRoute(async (req, res) => {
+    const data = await store.read();
+    const organisation = findAdminOrg(data, req);
+    if (!organisation) {
+      forbidden(res);
+      return;
+    }
+    const { members, commutes } = getOrgData(data, organisation.id);
+    res.json(summariseOrganisation(organisation, members, commutes));
+  }));
+
+  router.put('/:orgId/privacy', asyncRoute(async (req, res) => {
+    const privacy = await store.update(data => {
+      const organisation = findAdminOrg(data, req);
+      if (!organisation) return 'forbidden';
+      const next = readPrivacy(req.body, organisation.privacy);
+      if (!next) return null;
+      organisation.privacy = next;
+      // Commutes stored under a looser setting are reduced too (reducing is a no-op for ones already at this precision)
+      for (const commute of getOrgData(data, organisation.id).commutes) {
+        commute.start = applyLocationPrecision(commute.start, next.locationPrecision);
+        commute.end = applyLocationPrecision(commute.end, next.locationPrecision);
+      }
+      return next;
+    });
+    if (privacy === 'forbidden') {
+      forbidden(res);
+    } else if (!privacy) {
+      res.status(400).json({ error: 'Invalid privacy settings' });
+    } else {
+      res.json(privacy);
+    }
+  }));
+
+  router.get('/:orgId/scope3.csv', asyncRoute(async (req, res) => {
+    const data = await store.read();
+    const organisation = findAdminOrg(data, req);
+    if (!organisation) {
+      forbidden(res);
+      return;
+    }
+    const year = Number(req.query.year) || new Date().getFullYear();
+    const { members, commutes } = getOrgData(data, organisation.id);
+    res.type('text/csv').attachment(`scope3-commuting-${year}.csv`).send(toScope3Csv(organisation, members, commutes, year));
+  }));
+
+  return router;
+};
@@ -0,0 +1,23 @@
+const encodeValue = (value: number): string => {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (shifted >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+  return encoded + String.fromCharCode(shifted + 63);
+};
+
+// Google's encoded polyline format, as returned by the Directions API
+export const encodePolyline = (points: [number, number][]): string => {
+  let lat = 0;
+  let lng = 0;
+  return points.map(([pointLat, pointLng]) => {
+    const nextLat = Math.round(pointLat * 1e5);
+    const nextLng = Math.round(pointLng * 1e5);
+    const encoded = encodeValue(nextLat - lat) + encodeValue(nextLng - lng);
+    lat = nextLat;
+    lng = nextLng;
+    return encoded;
+  }).join('');
+};
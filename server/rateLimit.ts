@@ -0,0 +1,35 @@
+import type { RequestHandler } from 'express';
+import type { RateLimitConfig } from './config';
+
+// Fixed-window rate limit per client IP
+export const createRateLimiter = ({ windowMs, max }: RateLimitConfig): RequestHandler => {
+  const clients = new Map<string, { count: number; reset: number }>();
+
+  return (req, res, next) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+    let client = clients.get(key);
+    if (!client || client.reset <= now) {
+      client = { count: 0, reset: now + windowMs };
+      clients.set(key, client);
+    }
+    client.count += 1;
+
+    // Forget clients whose window has passed so the map doesn't grow forever
+    if (clients.size > 10_000) {
+      for (const [ip, entry] of clients) {
+        if (entry.reset <= now) clients.delete(ip);
+      }
+    }
+
+    res.set('RateLimit-Limit', String(max));
+    res.set('RateLimit-Remaining', String(Math.max(max - client.count, 0)));
+    res.set('RateLimit-Reset', String(Math.ceil((client.reset - now) / 1000)));
+
+    if (client.count > max) {
+      res.status(429).json({ error: 'Too many requests, please try again later.' });
+      return;
+    }
+    next();
+  };
+};
@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, Send, Sparkles } from 'lucide-react';
+import type { EmissionResult, TransitItinerary, TransportType } from '../types';
+import type { ModeComparison } from '../services/comparison';
+import type { TripOptions } from '../services/tripOptions';
+import {
+  buildAnalysisRequest,
+  buildFollowUpRequest,
+  extractPartialSummary,
+  groundFeedback,
+  parseTripFeedback,
+  type ChatMessage,
+  type FeedbackProvider,
+  type GroundedFeedback,
+  type TripFeedback
+} from '../services/feedback';
+
+interface AIFeedbackPanelProps {
+  result: EmissionResult;
+  itinerary: TransitItinerary | null;
+  transportTypes: TransportType[];
+  comparisons: ModeComparison[] | null;
+  tripOptions: TripOptions;
+  provider: FeedbackProvider;
+  onAnalysis?: (analysis: GroundedFeedback | null) => void; // the finished analysis, e.g. for the trip report
+}
+
+type Status = 'streaming' | 'done' | 'error';
+
+const NO_ANSWER = 'Sorry, I could not answer that right now.';
+
+function AIFeedbackPanel({ result, itinerary, transportTypes, comparisons, tripOptions, provider, onAnalysis }: AIFeedbackPanelProps) {
+  const [status, setStatus] = useState<Status>('streaming');
+  const [streamed, setStreamed] = useState('');
+  const [feedback, setFeedback] = useState<TripFeedback | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Conversation with the model: the analysis request and reply, then follow-ups
+  const [thread, setThread] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  // Bumped to request the analysis again after a failure
+  const [attempt, setAttempt] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // Latest inputs for the analysis request, which only reruns when the result itself changes
+  const contextRef = useRef({ itinerary, transportTypes, comparisons, tripOptions });
+
+  useEffect(() => {
+    contextRef.current = { itinerary, transportTypes, comparisons, tripOptions };
+  });
+
+  const grounded = useMemo(
+    () => (feedback ? groundFeedback(feedback, { result, transit: null, transportTypes, comparisons }) : null),
+    [feedback, result, transportTypes, comparisons]
+  );
+
+  useEffect(() => {
+    onAnalysis?.(status === 'done' ? grounded : null);
+  }, [status, grounded, onAnalysis]);
+
+  // An analysis that is no longer shown no longer belongs to the result
+  useEffect(() => () => onAnalysis?.(null), [onAnalysis]);
+
+  // A failed analysis is retried when the connection comes back
+  useEffect(() => {
+    if (status !== 'error') return;
+    const handleOnline = () => setAttempt(previous => previous + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [status]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = controller;
+    setStatus('streaming');
+    setStreamed('');
+    setFeedback(null);
+    setErrorMessage(null);
+    setThread([]);
+
+    const { itinerary: currentItinerary, transportTypes: types, comparisons: rows, tripOptions: options } = contextRef.current;
+    const request = buildAnalysisRequest({
+      result,
+      transit: currentItinerary?.transit ?? null,
+      transportTypes: types,
+      comparisons: rows,
+      tripOptions: options
+    });
+    provider.streamChat(request, (text) => setStreamed(previous => previous + text), controller.signal)
+      .then(reply => {
+        const parsed = parseTripFeedback(reply);
+        if (!parsed) {
+          setErrorMessage("The AI reply didn't match the expected format.");
+          setStatus('error');
+          return;
+        }
+        setFeedback(parsed);
+        setThread([...request.messages, { role: 'assistant', content: reply }]);
+        setStatus('done');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error("Error getting AI feedback:", error);
+        setErrorMessage('AI analysis is not available right now.');
+        setStatus('error');
+      });
+
+    // Also stops a follow-up answer that is still streaming
+    return () => abortRef.current?.abort();
+  }, [result, provider, attempt]);
+
+  const handleAsk = async () => {
+    if (!question.trim() || isAnswering || thread.length === 0) return;
+    const request = buildFollowUpRequest(thread, question.trim());
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setQuestion('');
+    setIsAnswering(true);
+    setThread([...request.messages, { role: 'assistant', content: '' }]);
+
+    const appendToAnswer = (text: string) => setThread(previous => {
+      const last = previous[previous.length - 1];
+      return [...previous.slice(0, -1), { ...last, content: last.content + text }];
+    });
+
+    try {
+      await provider.streamChat(request, appendToAnswer, controller.signal);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Error getting AI answer:", error);
+        setThread([...request.messages, { role: 'assistant', content: NO_ANSWER }]);
+      }
+    } finally {
+      // The server rejects empty messages, so an answer that never arrived can't stay in the conversation
+      setThread(previous => {
+        const last = previous[previous.length - 1];
+        return last?.role === 'assistant' && !last.content.trim()
+          ? [...previous.slice(0, -1), { ...last, content: NO_ANSWER }]
+          : previous;
+      });
+      setIsAnswering(false);
+    }
+  };
+
+  // The analysis request and its JSON reply are shown as the structured card, not as chat bubbles
+  const followUps = thread.slice(2);
+
+  return (
+    <div className="mt-2 p-4 bg-blue-50 rounded-lg border border-blue-100">
+      <h3 className="flex items-center font-medium text-blue-800 mb-2">
+        <Sparkles className="h-4 w-4 mr-1" /> AI Eco Analysis
+      </h3>
+
+      {status === 'streaming' && (
+        <div className="text-sm text-gray-600">
+          <div className="flex items-center space-x-2 mb-1">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Generating AI feedback...</span>
+          </div>
+          {extractPartialSummary(streamed) && <p>{extractPartialSummary(streamed)}</p>}
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="text-sm text-gray-500">
+          <p>{errorMessage} The suggestions above are calculated locally.</p>
+          <button className="flex items-center mt-1 text-blue-700 hover:text-blue-900" onClick={() => setAttempt(attempt + 1)}>
+            <RefreshCw className="h-3 w-3 mr-1" /> Try again
+          </button>
+        </div>
+      )}
+
+      {status === 'done' && grounded && (
+        <div className="space-y-3 text-sm text-gray-700">
+          <p>{grounded.summary}</p>
+
+          {grounded.alternatives.length > 0 && (
+            <ul className="space-y-2">
+              {grounded.alternatives.map((alternative, index) => (
+                <li key={`${alternative.mode}-${index}`} className="bg-white rounded-lg p-2">
+                  <div className="flex justify-between font-medium">
+                    <span>{alternative.mode}</span>
+                    {alternative.savings !== null ? (
+                      <span className={alternative.savings > 0 ? 'text-green-700' : 'text-gray-500'}>
+                        {alternative.savings > 0 ? `saves ${alternative.savings.toFixed(2)} kg CO₂` : 'no saving'}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400 font-normal">not in our catalogue</span>
+                    )}
+                  </div>
+                  {alternative.note && <p className="text-xs text-gray-600">{alternative.note}</p>}
+                  <p className={`flex items-center text-xs mt-1 ${alternative.matchesEstimate ? 'text-gray-400' : 'text-amber-700'}`}>
+                    {alternative.matchesEstimate ? (
+                      <><CheckCircle2 className="h-3 w-3 mr-1" /> AI estimate matches our numbers</>
+                    ) : alternative.savings !== null ? (
+                      <><AlertTriangle className="h-3 w-3 mr-1" /> AI estimated {alternative.estimatedSavingsKg.toFixed(2)} kg; figure shown is ours</>
+                    ) : (
+                      <><AlertTriangle className="h-3 w-3 mr-1" /> AI estimated {alternative.estimatedSavingsKg.toFixed(2)} kg; not verified</>
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {grounded.tips.length > 0 && (
+            <ul className="list-disc pl-5 space-y-1">
+              {grounded.tips.map((tip, index) => <li key={index}>{tip}</li>)}
+            </ul>
+          )}
+
+          {followUps.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-blue-100">
+              {followUps.map((message, index) => (
+                <div
+                  key={index}
+                  className={`px-3 py-2 rounded-lg whitespace-pre-line ${message.role === 'user' ? 'bg-blue-600 text-white ml-8' : 'bg-white mr-8'}`}
+                >
+                  {message.content || <Loader2 className="h-4 w-4 animate-spin" />}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Ask a follow-up question about this trip"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleAsk();
+                }
+              }}
+            />
+            <button
+              className="flex items-center px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              onClick={handleAsk}
+              disabled={isAnswering || !question.trim()}
+            >
+              {isAnswering ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AIFeedbackPanel;
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { Crosshair, Loader2, MapPin, Navigation, Search } from 'lucide-react';
+import type { Location } from '../types';
+import type { GeocodeBias, GeocodingProvider } from '../services/geocoding';
+
+interface AddressAutocompleteProps {
+  label: string;
+  placeholder: string;
+  value: string;
+  accent: 'green' | 'blue';
+  geocoder: GeocodingProvider;
+  bias: GeocodeBias | null;
+  onChange: (value: string) => void;
+  onSelect: (location: Location) => void;
+  onError: (message: string) => void;
+}
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 3;
+
+const accentClasses = {
+  green: { icon: 'text-green-600', input: 'focus:ring-green-500 focus:border-green-500', hover: 'hover:text-green-600' },
+  blue: { icon: 'text-blue-600', input: 'focus:ring-blue-500 focus:border-blue-500', hover: 'hover:text-blue-600' }
+};
+
+function AddressAutocomplete({ label, placeholder, value, accent, geocoder, bias, onChange, onSelect, onError }: AddressAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<Location[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  // Only type-ahead on what the user typed, not on addresses filled in from the map
+  const isTyping = useRef(false);
+  const classes = accentClasses[accent];
+
+  useEffect(() => {
+    if (!isTyping.current || value.trim().length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      const results = await geocoder.search(value, bias);
+      if (isCurrent) {
+        setSuggestions(results);
+        setHighlighted(-1);
+        setIsOpen(results.length > 0);
+        setIsSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    // A search still in flight is dropped, so its spinner goes too
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+      setIsSearching(false);
+    };
+  }, [value, geocoder, bias]);
+
+  const select = (location: Location) => {
+    isTyping.current = false;
+    setIsOpen(false);
+    setSuggestions([]);
+    onSelect(location);
+  };
+
+  // Explicit search (Enter or the search button): pick a single match, or ask which one was meant
+  const search = async () => {
+    if (!value.trim()) return;
+    setIsSearching(true);
+    const results = await geocoder.search(value, bias);
+    setIsSearching(false);
+
+    if (results.length === 0) {
+      onError(`Could not find location: ${value}`);
+    } else if (results.length === 1) {
+      select(results[0]);
+    } else {
+      setSuggestions(results);
+      setHighlighted(0);
+      setIsOpen(true);
+    }
+  };
+
+  const locateUser = () => {
+    if (!navigator.geolocation) {
+      onError('Geolocation is not supported by this browser.');
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        const { latitude: lat, longitude: lng } = position.coords;
+        const address = await geocoder.reverse(lat, lng);
+        setIsLocating(false);
+        select({ lat, lng, address: address ?? `Location at ${lat.toFixed(4)}, ${lng.toFixed(4)}` });
+      },
+      (error) => {
+        console.error('Error getting current location:', error);
+        setIsLocating(false);
+        onError('Could not get your current location.');
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1);
+    } else if (e.key === 'Enter') {
+      if (isOpen && highlighted >= 0 && suggestions[highlighted]) {
+        select(suggestions[highlighted]);
+      } else {
+        search();
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <div className="flex items-center">
+        <div className={`absolute left-3 ${classes.icon}`}>
+          <Navigation className="h-5 w-5" />
+        </div>
+        <input
+          type="text"
+          className={`w-full pl-10 pr-20 py-2 border border-gray-300 rounded-lg focus:ring-2 ${classes.input}`}
+          placeholder={placeholder}
+          value={value}
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-autocomplete="list"
+          onChange={(e) => {
+            isTyping.current = true;
+            onChange(e.target.value);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(suggestions.length > 0)}
+          onBlur={() => setIsOpen(false)}
+        />
+        <button
+          className={`absolute right-9 p-1 text-gray-500 ${classes.hover}`}
+          onClick={locateUser}
+          title="Use my current location"
+        >
+          {isLocating ? <Loader2 className="h-5 w-5 animate-spin" /> : <Crosshair className="h-5 w-5" />}
+        </button>
+        <button
+          className={`absolute right-2 p-1 text-gray-500 ${classes.hover}`}
+          onClick={search}
+          title="Search"
+        >
+          {isSearching ? <Loader2 className="h-5 w-5 animate-spin" /> : <Search className="h-5 w-5" />}
+        </button>
+      </div>
+
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-30 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.lat},${suggestion.lng},${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              className={`flex items-start px-3 py-2 text-sm cursor-pointer ${index === highlighted ? 'bg-green-50 text-green-800' : 'text-gray-700 hover:bg-gray-50'}`}
+              onMouseDown={(e) => {
+                // Keep focus on the input so blur doesn't close the list before the click lands
+                e.preventDefault();
+                select(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <MapPin className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-gray-400" />
+              {suggestion.address}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AddressAutocomplete;
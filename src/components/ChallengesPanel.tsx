@@ -0,0 +1,109 @@
+import { CheckCircle2, Flag, Trophy, X } from 'lucide-react';
+import type { SavedTrip, TransportType } from '../types';
+import { challengeCatalogue, getChallengeProgress, type ChallengeProgress, type ChallengeStatus, type JoinedChallenge } from '../services/goals';
+
+interface ChallengesPanelProps {
+  trips: SavedTrip[];
+  transportTypes: TransportType[];
+  challenges: JoinedChallenge[];
+  onChallengesChange: (challenges: JoinedChallenge[]) => void;
+}
+
+const statusLabels: Record<ChallengeStatus, { label: string; className: string }> = {
+  active: { label: 'In progress', className: 'text-blue-700 bg-blue-50' },
+  completed: { label: 'Completed', className: 'text-green-700 bg-green-50' },
+  failed: { label: 'Failed', className: 'text-red-700 bg-red-50' },
+  expired: { label: 'Time ran out', className: 'text-gray-600 bg-gray-100' }
+};
+
+function ChallengesPanel({ trips, transportTypes, challenges, onChallengesChange }: ChallengesPanelProps) {
+  const joined = challenges
+    .map(challenge => getChallengeProgress(challenge, trips, transportTypes))
+    .filter((progress): progress is ChallengeProgress => progress !== null);
+  const activeIds = joined.filter(progress => progress.status === 'active').map(progress => progress.challenge.id);
+
+  // Joining again restarts a finished challenge
+  const handleJoin = (challengeId: string) => {
+    onChallengesChange([
+      ...challenges.filter(challenge => challenge.challengeId !== challengeId),
+      { challengeId, startedAt: new Date().toISOString() }
+    ]);
+  };
+
+  const handleRemove = (challengeId: string) => {
+    onChallengesChange(challenges.filter(challenge => challenge.challengeId !== challengeId));
+  };
+
+  const describeProgress = ({ challenge, progress }: ChallengeProgress) => {
+    const amount = challenge.unit === 'kg' ? progress.toFixed(1) : progress;
+    return challenge.direction === 'at-most'
+      ? `${amount} of at most ${challenge.target} ${challenge.unit}`
+      : `${amount} of ${challenge.target} ${challenge.unit}`;
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <h2 className="flex items-center text-xl font-semibold text-green-800 mb-4">
+        <Trophy className="h-5 w-5 mr-2" /> Challenges
+      </h2>
+
+      {joined.length > 0 && (
+        <ul className="space-y-3 mb-4">
+          {joined.map(progress => {
+            const { challenge, status, endsAt } = progress;
+            const ratio = Math.min(progress.progress / challenge.target, 1);
+            return (
+              <li key={challenge.id} className="p-3 rounded-lg border border-gray-200 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800">{challenge.name}</span>
+                  <span className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusLabels[status].className}`}>
+                      {statusLabels[status].label}
+                    </span>
+                    <button className="p-1 text-gray-400 hover:text-red-600" onClick={() => handleRemove(challenge.id)} title="Remove challenge">
+                      <X className="h-4 w-4" />
+                    </button>
+                  </span>
+                </div>
+                <div className="mt-2 bg-gray-100 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${challenge.direction === 'at-most' ? (ratio > 0.8 ? 'bg-amber-500' : 'bg-green-500') : 'bg-blue-400'}`}
+                    style={{ width: `${ratio * 100}%` }}
+                  ></div>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {describeProgress(progress)}
+                  {status === 'active' && ` · ends ${endsAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {challengeCatalogue.filter(challenge => !activeIds.includes(challenge.id)).map(challenge => (
+          <div key={challenge.id} className="flex items-start justify-between gap-2 p-3 rounded-lg bg-green-50 text-sm">
+            <div>
+              <p className="flex items-center font-medium text-gray-800">
+                {joined.some(progress => progress.challenge.id === challenge.id && progress.status === 'completed')
+                  ? <CheckCircle2 className="h-4 w-4 mr-1 text-green-600" />
+                  : <Flag className="h-4 w-4 mr-1 text-green-600" />}
+                {challenge.name}
+              </p>
+              <p className="text-xs text-gray-600">{challenge.description}</p>
+            </div>
+            <button
+              className="px-3 py-1 rounded-lg bg-green-600 text-white text-xs font-medium hover:bg-green-700"
+              onClick={() => handleJoin(challenge.id)}
+            >
+              {joined.some(progress => progress.challenge.id === challenge.id) ? 'Restart' : 'Join'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ChallengesPanel;
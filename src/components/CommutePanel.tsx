@@ -0,0 +1,124 @@
+import { Repeat } from 'lucide-react';
+import type { CommuteSchedule, EmissionResult, TransportType } from '../types';
+import type { ModeComparison } from '../services/comparison';
+import { defaultCommuteSchedule, getCommuteSavings, projectCommute } from '../services/commute';
+import { getOneWay } from '../services/tripOptions';
+
+interface CommutePanelProps {
+  result: EmissionResult;
+  transportTypes: TransportType[];
+  comparisons: ModeComparison[] | null;
+  schedule: CommuteSchedule | null;
+  onScheduleChange: (schedule: CommuteSchedule | null) => void;
+}
+
+function CommutePanel({ result, transportTypes, comparisons, schedule, onScheduleChange }: CommutePanelProps) {
+  const projection = schedule ? projectCommute(getOneWay(result).emissions, schedule) : null;
+  const savings = schedule ? getCommuteSavings(result, transportTypes, schedule, comparisons).filter(saving => saving.annualSavings > 0) : [];
+
+  const updateNumber = (key: 'daysPerWeek' | 'workFromHomeDays' | 'weeksPerYear', value: string, max: number) => {
+    if (!schedule) return;
+    onScheduleChange({ ...schedule, [key]: Math.min(Math.max(parseInt(value) || 0, 0), max) });
+  };
+
+  return (
+    <div className="mt-4 bg-white p-4 rounded-lg shadow-sm">
+      <label className="flex items-center text-sm font-medium text-gray-800 cursor-pointer">
+        <input
+          type="checkbox"
+          className="mr-2 h-4 w-4 text-green-600 rounded"
+          checked={schedule !== null}
+          onChange={(e) => onScheduleChange(e.target.checked ? defaultCommuteSchedule : null)}
+        />
+        <Repeat className="h-4 w-4 mr-1 text-green-600" />
+        This is a recurring commute
+      </label>
+
+      {schedule && projection && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs text-gray-500">
+            <label>
+              Days per week
+              <input
+                type="number"
+                min={0}
+                max={7}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={schedule.daysPerWeek}
+                onChange={(e) => updateNumber('daysPerWeek', e.target.value, 7)}
+              />
+            </label>
+            <label>
+              Work-from-home days
+              <input
+                type="number"
+                min={0}
+                max={schedule.daysPerWeek}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={schedule.workFromHomeDays}
+                onChange={(e) => updateNumber('workFromHomeDays', e.target.value, schedule.daysPerWeek)}
+              />
+            </label>
+            <label>
+              Weeks per year
+              <input
+                type="number"
+                min={0}
+                max={52}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={schedule.weeksPerYear}
+                onChange={(e) => updateNumber('weeksPerYear', e.target.value, 52)}
+              />
+            </label>
+            <label>
+              Trip
+              <select
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={schedule.roundTrip ? 'round' : 'one-way'}
+                onChange={(e) => onScheduleChange({ ...schedule, roundTrip: e.target.value === 'round' })}
+              >
+                <option value="round">Round trip</option>
+                <option value="one-way">One-way</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Weekly', value: projection.weekly },
+              { label: 'Monthly', value: projection.monthly },
+              { label: 'Annual', value: projection.annual }
+            ].map(item => (
+              <div key={item.label} className="bg-green-50 p-3 rounded-lg text-center">
+                <p className="text-xs text-gray-500">{item.label}</p>
+                <p className="text-lg font-bold text-green-700">{item.value.toFixed(1)} kg</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {projection.tripsPerWeek} one-way trips per week with {result.transportType}.
+          </p>
+
+          {savings.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-800 mb-2">Annual savings by switching</h4>
+              <ul className="space-y-1 text-sm">
+                {savings.map(saving => (
+                  <li key={saving.transportTypeId} className="flex justify-between">
+                    <span className="text-gray-600">{saving.name}</span>
+                    <span className="font-medium text-green-700">
+                      −{saving.annualSavings.toFixed(1)} kg/year
+                      <span className="text-gray-400 font-normal"> ({saving.annual.toFixed(1)} kg total)</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CommutePanel;
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Award } from 'lucide-react';
+import type { TransportType } from '../types';
+import { getLowestEmission, type ModeComparison } from '../services/comparison';
+import { formatDistance, formatMass, formatMoney, type DisplayUnits } from '../utils/units';
+import TransportIcon from './TransportIcon';
+
+type SortKey = 'name' | 'distance' | 'emissions' | 'duration' | 'cost';
+
+interface ComparisonPanelProps {
+  comparisons: ModeComparison[];
+  transportTypes: TransportType[];
+  selectedTransportType: string;
+  units: DisplayUnits;
+}
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Mode' },
+  { key: 'distance', label: 'Distance' },
+  { key: 'emissions', label: 'CO₂' },
+  { key: 'duration', label: 'Time' },
+  { key: 'cost', label: 'Cost' }
+];
+
+function ComparisonPanel({ comparisons, transportTypes, selectedTransportType, units }: ComparisonPanelProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('emissions');
+  const [sortAscending, setSortAscending] = useState(true);
+
+  const lowest = getLowestEmission(comparisons);
+  const selected = comparisons.find(comparison => comparison.transportTypeId === selectedTransportType);
+  const maxEmissions = Math.max(...comparisons.map(comparison => comparison.emissions), 0.01);
+
+  const sorted = [...comparisons].sort((a, b) => {
+    const order = sortKey === 'name' ? a.name.localeCompare(b.name) : a[sortKey] - b[sortKey];
+    return sortAscending ? order : -order;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const getIcon = (id: string) => transportTypes.find(type => type.id === id)?.icon ?? '';
+
+  return (
+    <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <h2 className="text-xl font-semibold text-green-800 mb-4">Compare Transport Modes</h2>
+
+      {lowest && selected && lowest.transportTypeId !== selected.transportTypeId && (
+        <div className="mb-4 p-3 bg-green-100 border border-green-200 text-green-800 rounded-lg text-sm">
+          Switching from <strong>{selected.name}</strong> to <strong>{lowest.name}</strong> saves{' '}
+          <strong>{formatMass(selected.emissions - lowest.emissions, units)} CO₂</strong>
+          {selected.emissions > 0 && ` (${Math.round(((selected.emissions - lowest.emissions) / selected.emissions) * 100)}%)`} on this trip.
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              {columns.map(column => (
+                <th key={column.key} className={`p-3 font-medium ${column.key === 'name' ? '' : 'text-right'}`}>
+                  <button className="inline-flex items-center hover:text-green-700" onClick={() => handleSort(column.key)}>
+                    {column.label}
+                    {sortKey === column.key && (sortAscending
+                      ? <ArrowUp className="h-3 w-3 ml-1" />
+                      : <ArrowDown className="h-3 w-3 ml-1" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(comparison => (
+              <tr
+                key={comparison.transportTypeId}
+                className={`border-t border-gray-100 ${comparison.transportTypeId === lowest?.transportTypeId ? 'bg-green-50' : ''}`}
+              >
+                <td className="p-3">
+                  <span className="inline-flex items-center">
+                    <span className="mr-2"><TransportIcon name={getIcon(comparison.transportTypeId)} /></span>
+                    <span className="font-medium">{comparison.name}</span>
+                    {comparison.transportTypeId === lowest?.transportTypeId && (
+                      <span className="ml-2 inline-flex items-center text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full">
+                        <Award className="h-3 w-3 mr-1" /> Lowest
+                      </span>
+                    )}
+                    {comparison.transportTypeId === selectedTransportType && (
+                      <span className="ml-2 text-xs text-gray-500">(selected)</span>
+                    )}
+                  </span>
+                </td>
+                <td className="p-3 text-right">
+                  {formatDistance(comparison.distance, units)}
+                  {comparison.distanceSource === 'straight-line' && <span className="text-gray-400">*</span>}
+                </td>
+                <td className="p-3 text-right font-medium">{formatMass(comparison.emissions, units)}</td>
+                <td className="p-3 text-right">{comparison.duration} min</td>
+                <td className="p-3 text-right">{formatMoney(comparison.cost, units)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {comparisons.some(comparison => comparison.distanceSource === 'straight-line') && (
+          <p className="px-3 pb-3 text-xs text-gray-400">* Straight-line estimate (no route available)</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <h3 className="font-medium text-gray-800 mb-3">CO₂ per mode</h3>
+        <div className="space-y-2">
+          {sorted.map(comparison => (
+            <div key={comparison.transportTypeId} className="flex items-center text-sm">
+              <span className="w-28 text-gray-600 truncate">{comparison.name}</span>
+              <div className="flex-1 bg-gray-100 rounded-full h-4 mx-2">
+                <div
+                  className={`h-4 rounded-full ${comparison.transportTypeId === lowest?.transportTypeId ? 'bg-green-500' : 'bg-blue-400'}`}
+                  style={{ width: `${Math.max((comparison.emissions / maxEmissions) * 100, 1)}%` }}
+                ></div>
+              </div>
+              <span className="w-16 text-right text-gray-700">{formatMass(comparison.emissions, units)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ComparisonPanel;
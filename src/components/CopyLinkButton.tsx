@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import { CheckCircle2, Link } from 'lucide-react';
+
+function CopyLinkButton() {
+  const [isCopied, setIsCopied] = useState(false);
+
+  // The address bar already holds the trip (see tripSharing), so the link is the current URL
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  return (
+    <button
+      className="flex items-center px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:border-green-400"
+      onClick={handleCopyLink}
+    >
+      {isCopied ? <CheckCircle2 className="h-4 w-4 mr-1 text-green-600" /> : <Link className="h-4 w-4 mr-1" />}
+      {isCopied ? 'Link copied' : 'Copy link'}
+    </button>
+  );
+}
+
+export default CopyLinkButton;
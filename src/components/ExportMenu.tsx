@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+
+export interface ExportOption {
+  label: string;
+  description: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  label?: string;
+}
+
+function ExportMenu({ options, label = 'Export' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        className="flex items-center px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:border-green-400"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        <Download className="h-4 w-4 mr-1" /> {label} <ChevronDown className="h-4 w-4 ml-1" />
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 bottom-full mb-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-30 py-1">
+          {options.map(option => (
+            <li key={option.label}>
+              <button
+                className="w-full text-left px-3 py-2 hover:bg-green-50"
+                onClick={() => {
+                  setIsOpen(false);
+                  option.onSelect();
+                }}
+              >
+                <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
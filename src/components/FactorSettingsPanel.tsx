@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, RotateCcw, SlidersHorizontal, Trash2 } from 'lucide-react';
+import type { TransportType } from '../types';
+import {
+  factorSets,
+  gridIntensityPresets,
+  type FactorSettings,
+  type FuelType,
+  type TransportPrice,
+  type VehicleProfile
+} from '../services/emissionFactors';
+import TransportIcon from './TransportIcon';
+
+interface FactorSettingsPanelProps {
+  settings: FactorSettings;
+  transportTypes: TransportType[];
+  currency: string; // the home region's, for prices
+  onChange: (settings: FactorSettings) => void;
+}
+
+const emptyProfile = { name: '', fuel: 'gasoline' as FuelType, consumption: '', passengers: '1' };
+
+function FactorSettingsPanel({ settings, transportTypes, currency, onChange }: FactorSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [profile, setProfile] = useState(emptyProfile);
+
+  const presetId = gridIntensityPresets.find(preset => preset.gPerKWh === settings.gridIntensity)?.id ?? 'custom';
+  const canAddProfile = profile.name.trim() !== '' && parseFloat(profile.consumption) > 0 && parseInt(profile.passengers) > 0;
+
+  const handleAddProfile = () => {
+    if (!canAddProfile) return;
+    const vehicleProfile: VehicleProfile = {
+      id: Date.now().toString(36),
+      name: profile.name.trim(),
+      fuel: profile.fuel,
+      consumption: parseFloat(profile.consumption),
+      passengers: parseInt(profile.passengers)
+    };
+    onChange({ ...settings, vehicleProfiles: [...settings.vehicleProfiles, vehicleProfile] });
+    setProfile(emptyProfile);
+  };
+
+  const handleRemoveProfile = (id: string) => {
+    onChange({ ...settings, vehicleProfiles: settings.vehicleProfiles.filter(vehicleProfile => vehicleProfile.id !== id) });
+  };
+
+  const handlePriceChange = (id: string, price: TransportPrice | null) => {
+    const prices = Object.fromEntries(Object.entries(settings.prices).filter(([key]) => key !== id));
+    onChange({ ...settings, prices: price ? { ...prices, [id]: price } : prices });
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg">
+      <button
+        className="w-full flex items-center justify-between p-3 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="flex items-center">
+          <SlidersHorizontal className="h-4 w-4 mr-2 text-green-600" />
+          Emission factors & vehicle profiles
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Factor set</label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                value={settings.version}
+                onChange={(e) => onChange({ ...settings, version: e.target.value })}
+              >
+                {factorSets.map(set => (
+                  <option key={set.version} value={set.version}>{set.name} (v{set.version})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Grid carbon intensity (g CO₂/kWh)</label>
+              <div className="flex gap-2">
+                <select
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  value={presetId}
+                  onChange={(e) => {
+                    const preset = gridIntensityPresets.find(p => p.id === e.target.value);
+                    if (preset) onChange({ ...settings, gridIntensity: preset.gPerKWh });
+                  }}
+                >
+                  {gridIntensityPresets.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                  <option value="custom">Custom</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  value={settings.gridIntensity}
+                  onChange={(e) => onChange({ ...settings, gridIntensity: Math.max(parseFloat(e.target.value) || 0, 0) })}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Used for electric cars, e-bikes and other electric modes.</p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Custom vehicle profiles</h3>
+            {settings.vehicleProfiles.length > 0 && (
+              <ul className="mb-3 space-y-1">
+                {settings.vehicleProfiles.map(vehicleProfile => (
+                  <li key={vehicleProfile.id} className="flex items-center justify-between text-sm bg-gray-50 px-3 py-2 rounded-lg">
+                    <span>
+                      <span className="font-medium">{vehicleProfile.name}</span>
+                      <span className="text-gray-500">
+                        {' '}· {vehicleProfile.consumption} {vehicleProfile.fuel === 'electric' ? 'kWh' : 'L'}/100 km · {vehicleProfile.passengers} passenger{vehicleProfile.passengers === 1 ? '' : 's'}
+                      </span>
+                    </span>
+                    <button className="text-gray-400 hover:text-red-600" onClick={() => handleRemoveProfile(vehicleProfile.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <input
+                type="text"
+                className="col-span-2 md:col-span-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="Name, e.g. My Civic"
+                value={profile.name}
+                onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+              />
+              <select
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                value={profile.fuel}
+                onChange={(e) => setProfile({ ...profile, fuel: e.target.value as FuelType })}
+              >
+                <option value="gasoline">Gasoline</option>
+                <option value="diesel">Diesel</option>
+                <option value="electric">Electric</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder={profile.fuel === 'electric' ? 'kWh/100 km' : 'L/100 km'}
+                value={profile.consumption}
+                onChange={(e) => setProfile({ ...profile, consumption: e.target.value })}
+              />
+              <input
+                type="number"
+                min={1}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                placeholder="Passengers"
+                value={profile.passengers}
+                onChange={(e) => setProfile({ ...profile, passengers: e.target.value })}
+              />
+              <button
+                className={`flex items-center justify-center px-3 py-2 rounded-lg text-sm font-medium ${
+                  canAddProfile ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                }`}
+                onClick={handleAddProfile}
+                disabled={!canAddProfile}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Prices</h3>
+            <p className="text-xs text-gray-500 mb-2">Fuel or electricity cost per km, or the fare per trip for transit, used for trip costs.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+              {transportTypes.map(type => {
+                const hasFare = type.fare !== undefined;
+                return (
+                  <label key={type.id} className="flex items-center gap-2 text-xs text-gray-600">
+                    <span className="flex-1 inline-flex items-center">
+                      <TransportIcon name={type.icon} className="h-3 w-3 mr-1" />
+                      {type.name}
+                    </span>
+                    <span className="text-gray-400">{currency}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={hasFare ? 0.05 : 0.01}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                      value={hasFare ? type.fare : type.costPerKm}
+                      onChange={(e) => {
+                        const value = Math.max(parseFloat(e.target.value) || 0, 0);
+                        handlePriceChange(type.id, hasFare ? { fare: value } : { costPerKm: value });
+                      }}
+                    />
+                    <span className="w-10 text-gray-400">{hasFare ? '/ trip' : '/ km'}</span>
+                    <button
+                      className={`text-gray-400 hover:text-green-700 ${settings.prices[type.id] ? '' : 'invisible'}`}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        handlePriceChange(type.id, null);
+                      }}
+                      title="Reset to the default price"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </button>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Factors in use</h3>
+            <table className="w-full text-xs">
+              <tbody>
+                {transportTypes.map(type => (
+                  <tr key={type.id} className="border-t border-gray-100">
+                    <td className="py-1.5 pr-2">
+                      <span className="inline-flex items-center">
+                        <TransportIcon name={type.icon} className="h-3 w-3 mr-1" />
+                        {type.name}
+                      </span>
+                    </td>
+                    <td className="py-1.5 pr-2 text-right font-medium whitespace-nowrap">{type.emissionFactor} g/km</td>
+                    <td className="py-1.5 text-gray-500">{type.source} ({type.year})</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FactorSettingsPanel;
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import type { SavedTrip } from '../types';
+import {
+  summariseByMode,
+  summariseByPeriod,
+  type FootprintBudget,
+  type Period
+} from '../services/tripHistory';
+import { formatDistance, formatMass, fromDisplayMass, toDisplayMass, type DisplayUnits } from '../utils/units';
+
+interface FootprintDashboardProps {
+  trips: SavedTrip[];
+  budget: FootprintBudget;
+  units: DisplayUnits;
+  onBudgetChange: (budget: FootprintBudget) => void;
+}
+
+const budgetKeys: Record<Period, keyof FootprintBudget> = { week: 'weekly', month: 'monthly' };
+
+function FootprintDashboard({ trips, budget, units, onBudgetChange }: FootprintDashboardProps) {
+  const [period, setPeriod] = useState<Period>('week');
+
+  const weeks = summariseByPeriod(trips, 'week', 8);
+  const months = summariseByPeriod(trips, 'month', 6);
+  const trend = period === 'week' ? weeks : months;
+  const periodBudget = budget[budgetKeys[period]];
+  const maxTrend = Math.max(...trend.map(total => total.emissions), periodBudget, 0.01);
+  const modes = summariseByMode(trips);
+  const totalEmissions = modes.reduce((sum, mode) => sum + mode.emissions, 0);
+
+  // Budgets are stored in kg and edited in the display unit
+  const toBudgetInput = (kg: number) => parseFloat(toDisplayMass(kg, units.mass).toFixed(1));
+  const fromBudgetInput = (value: string) => fromDisplayMass(Math.max(parseFloat(value) || 0, 0), units.mass);
+
+  const renderProgress = (label: string, emissions: number, limit: number) => {
+    const ratio = limit > 0 ? emissions / limit : 0;
+    return (
+      <div className="bg-white p-4 rounded-lg shadow-sm">
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className="text-2xl font-bold text-green-700">
+          {toDisplayMass(emissions, units.mass).toFixed(1)} <span className="text-base font-medium text-gray-500">/ {formatMass(limit, units, 1)}</span>
+        </p>
+        <div className="mt-2 bg-gray-100 rounded-full h-2">
+          <div
+            className={`h-2 rounded-full ${ratio > 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-green-500'}`}
+            style={{ width: `${Math.min(ratio * 100, 100)}%` }}
+          ></div>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {ratio > 1
+            ? `${formatMass(emissions - limit, units, 1)} over budget`
+            : `${formatMass(limit - emissions, units, 1)} left`}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <h2 className="text-xl font-semibold text-green-800 mb-4">My Footprint</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {renderProgress('This week', weeks[weeks.length - 1].emissions, budget.weekly)}
+        {renderProgress('This month', months[months.length - 1].emissions, budget.monthly)}
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-500 mb-2">Budget ({units.mass} CO₂)</p>
+          <div className="flex gap-2">
+            <label className="flex-1 text-xs text-gray-500">
+              Weekly
+              <input
+                type="number"
+                min={0}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={toBudgetInput(budget.weekly)}
+                onChange={(e) => onBudgetChange({ ...budget, weekly: fromBudgetInput(e.target.value) })}
+              />
+            </label>
+            <label className="flex-1 text-xs text-gray-500">
+              Monthly
+              <input
+                type="number"
+                min={0}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={toBudgetInput(budget.monthly)}
+                onChange={(e) => onBudgetChange({ ...budget, monthly: fromBudgetInput(e.target.value) })}
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-medium text-gray-800">Trend</h3>
+            <div className="flex text-xs border border-gray-200 rounded-lg overflow-hidden">
+              {(['week', 'month'] as Period[]).map(option => (
+                <button
+                  key={option}
+                  className={`px-3 py-1 ${period === option ? 'bg-green-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                  onClick={() => setPeriod(option)}
+                >
+                  {option === 'week' ? 'Weekly' : 'Monthly'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="relative flex items-end h-36 gap-2">
+            <div
+              className="absolute left-0 right-0 border-t border-dashed border-red-300"
+              style={{ bottom: `${(periodBudget / maxTrend) * 100}%` }}
+              title={`Budget: ${formatMass(periodBudget, units, 1)}`}
+            ></div>
+            {trend.map(total => (
+              <div key={total.start.toISOString()} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className={`w-full rounded-t ${total.emissions > periodBudget ? 'bg-red-400' : 'bg-green-500'}`}
+                  style={{ height: `${(total.emissions / maxTrend) * 100}%` }}
+                  title={`${formatMass(total.emissions, units)} · ${total.trips} trips`}
+                ></div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {trend.map(total => (
+              <span key={total.start.toISOString()} className="flex-1 text-center text-[10px] text-gray-500">{total.label}</span>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <h3 className="font-medium text-gray-800 mb-3">By transport type</h3>
+          {modes.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved trips yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {modes.map(mode => (
+                <div key={mode.transportType} className="text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>{mode.transportType} <span className="text-gray-400">· {mode.trips} trips, {formatDistance(mode.distance, units)}</span></span>
+                    <span className="font-medium">{formatMass(mode.emissions, units)}</span>
+                  </div>
+                  <div className="bg-gray-100 rounded-full h-2 mt-1">
+                    <div
+                      className="h-2 rounded-full bg-blue-400"
+                      style={{ width: `${totalEmissions > 0 ? (mode.emissions / totalEmissions) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FootprintDashboard;
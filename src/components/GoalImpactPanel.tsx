@@ -0,0 +1,33 @@
+import { Target } from 'lucide-react';
+import type { GoalImpact } from '../services/goals';
+
+interface GoalImpactPanelProps {
+  impacts: GoalImpact[];
+  saved: boolean;
+}
+
+const toneClassNames: Record<GoalImpact['tone'], string> = {
+  positive: 'bg-green-500',
+  negative: 'bg-red-500',
+  neutral: 'bg-gray-400'
+};
+
+function GoalImpactPanel({ impacts, saved }: GoalImpactPanelProps) {
+  return (
+    <div className="mt-4 p-4 bg-white rounded-lg shadow-sm">
+      <h3 className="flex items-center font-medium text-gray-800 mb-2">
+        <Target className="h-4 w-4 mr-1 text-green-600" /> {saved ? 'Effect on your goals' : 'If you save this trip'}
+      </h3>
+      <ul className="space-y-1">
+        {impacts.map(impact => (
+          <li key={impact.id} className="flex items-start text-sm text-gray-700">
+            <span className={`inline-block h-2 w-2 rounded-full mr-2 mt-1.5 shrink-0 ${toneClassNames[impact.tone]}`}></span>
+            <span>{impact.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default GoalImpactPanel;
@@ -0,0 +1,106 @@
+import { Award, Flame, Target } from 'lucide-react';
+import type { SavedTrip, TransportType } from '../types';
+import type { FootprintBudget, Period } from '../services/tripHistory';
+import { getBadges, getBudgetStreak, getLowCarbonShare, getLowCarbonStreak, type LowCarbonGoal } from '../services/goals';
+
+interface GoalsPanelProps {
+  trips: SavedTrip[];
+  transportTypes: TransportType[];
+  budget: FootprintBudget;
+  goal: LowCarbonGoal;
+  onGoalChange: (goal: LowCarbonGoal) => void;
+}
+
+function GoalsPanel({ trips, transportTypes, budget, goal, onGoalChange }: GoalsPanelProps) {
+  const current = getLowCarbonShare(trips, goal.period, transportTypes);
+  const lowCarbonStreak = getLowCarbonStreak(trips, transportTypes);
+  const budgetStreak = getBudgetStreak(trips, budget);
+  const badges = getBadges(trips, transportTypes, budget);
+  const ratio = goal.share > 0 ? current.share / goal.share : 0;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <h2 className="flex items-center text-xl font-semibold text-green-800 mb-4">
+        <Target className="h-5 w-5 mr-2" /> Goals
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-green-50 p-4 rounded-lg md:col-span-2">
+          <p className="text-sm text-gray-500">Low-carbon trips this {goal.period}</p>
+          <p className="text-2xl font-bold text-green-700">
+            {Math.round(current.share)}%
+            {goal.share > 0 && <span className="text-base font-medium text-gray-500"> / {goal.share}% goal</span>}
+          </p>
+          {goal.share > 0 && (
+            <div className="mt-2 bg-white rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${ratio >= 1 ? 'bg-green-500' : ratio >= 0.5 ? 'bg-amber-500' : 'bg-red-400'}`}
+                style={{ width: `${Math.min(ratio * 100, 100)}%` }}
+              ></div>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 mt-1">
+            {current.lowCarbon} of {current.trips} trips on foot, by bike or by public transport
+          </p>
+          <div className="flex gap-2 mt-3">
+            <label className="flex-1 text-xs text-gray-500">
+              Goal (% of trips, 0 for none)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={goal.share}
+                onChange={(e) => onGoalChange({ ...goal, share: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100) })}
+              />
+            </label>
+            <label className="flex-1 text-xs text-gray-500">
+              Per
+              <select
+                className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                value={goal.period}
+                onChange={(e) => onGoalChange({ ...goal, period: e.target.value as Period })}
+              >
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="bg-amber-50 p-4 rounded-lg">
+          <p className="flex items-center text-sm text-gray-500">
+            <Flame className="h-4 w-4 mr-1 text-amber-500" /> Streaks
+          </p>
+          <p className="text-2xl font-bold text-amber-600">{lowCarbonStreak}</p>
+          <p className="text-xs text-gray-500">low-carbon trips in a row</p>
+          <p className="text-2xl font-bold text-amber-600 mt-2">{budgetStreak}</p>
+          <p className="text-xs text-gray-500">weeks in a row under your {budget.weekly} kg budget</p>
+        </div>
+      </div>
+
+      <h3 className="flex items-center font-medium text-gray-800 mb-2">
+        <Award className="h-4 w-4 mr-1 text-green-600" /> Badges
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {badges.map(badge => (
+          <div
+            key={badge.id}
+            className={`p-3 rounded-lg border text-sm ${badge.earned ? 'border-green-300 bg-green-50' : 'border-gray-200 text-gray-500'}`}
+            title={badge.description}
+          >
+            <p className={`font-medium ${badge.earned ? 'text-green-800' : 'text-gray-600'}`}>{badge.name}</p>
+            <p className="text-xs">{badge.description}</p>
+            {!badge.earned && (
+              <div className="mt-2 bg-gray-100 rounded-full h-1.5">
+                <div className="h-1.5 rounded-full bg-green-400" style={{ width: `${(badge.progress / badge.target) * 100}%` }}></div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default GoalsPanel;
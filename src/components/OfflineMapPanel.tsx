@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { CheckCircle2, Download, Loader2 } from 'lucide-react';
+import type { GeocodeBias } from '../services/geocoding';
+import { cacheTileRegion, getTileUrls, regionFromBounds, MAX_REGION_TILES, type TileRegion } from '../services/offline';
+
+interface OfflineMapPanelProps {
+  bounds: GeocodeBias | null; // visible map area
+  zoom: number;
+  homeRegion: TileRegion;
+}
+
+const CURRENT_VIEW = 'current-view';
+
+const HOME_REGION = 'home-region';
+
+function OfflineMapPanel({ bounds, zoom, homeRegion }: OfflineMapPanelProps) {
+  const [regionId, setRegionId] = useState(HOME_REGION);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const region: TileRegion | null = regionId === CURRENT_VIEW
+    ? bounds && regionFromBounds(bounds, zoom)
+    : homeRegion;
+  const tileCount = region ? getTileUrls(region).length : 0;
+  const isDownloading = progress !== null && progress.done < progress.total;
+
+  const handleDownload = async () => {
+    if (!region) return;
+    setError(null);
+    setMessage(null);
+    setProgress({ done: 0, total: tileCount });
+    try {
+      const { cached, failed } = await cacheTileRegion(region, (done, total) => setProgress({ done, total }));
+      setMessage(`${cached} map tiles of ${region.name} saved for offline use${failed > 0 ? `; ${failed} could not be downloaded` : ''}.`);
+    } catch (error) {
+      console.error("Error saving map tiles:", error);
+      setError(error instanceof Error ? error.message : 'Could not save the map tiles.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg p-4">
+      <h3 className="flex items-center text-sm font-medium text-gray-700 mb-1">
+        <Download className="h-4 w-4 mr-2 text-green-600" /> Offline map
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Store the map of an area so it still shows without a connection. Emissions are then calculated from straight-line
+        distances, and route lookups and the AI analysis run once you're back online.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="flex-1 min-w-[12rem] px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-800"
+          value={regionId}
+          onChange={(e) => setRegionId(e.target.value)}
+          disabled={isDownloading}
+        >
+          <option value={HOME_REGION}>{homeRegion.name}</option>
+          <option value={CURRENT_VIEW}>The current map view</option>
+        </select>
+        <button
+          className="flex items-center px-3 py-1.5 rounded-lg border border-green-600 text-green-700 text-sm font-medium hover:bg-green-50 disabled:opacity-50"
+          onClick={handleDownload}
+          disabled={!region || isDownloading || tileCount > MAX_REGION_TILES}
+        >
+          {isDownloading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+          {isDownloading ? `${progress.done} / ${progress.total}` : `Save ${tileCount} tiles`}
+        </button>
+      </div>
+      {tileCount > MAX_REGION_TILES && (
+        <p className="mt-2 text-xs text-amber-700">That area needs too many tiles; zoom in or pick a smaller region.</p>
+      )}
+      {message && (
+        <p className="flex items-center mt-2 text-xs text-green-700">
+          <CheckCircle2 className="h-3 w-3 mr-1" /> {message}
+        </p>
+      )}
+      {error && <p className="mt-2 text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
+
+export default OfflineMapPanel;
@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import type { OrgPrivacySettings, OrgSummary } from '../types';
+import { fetchOrgSummary, fetchScope3Csv, updateOrgPrivacy, type Membership } from '../services/organisation';
+import { downloadFile } from '../utils/download';
+
+interface OrgDashboardProps {
+  membership: Membership;
+}
+
+const locationOptions: { value: OrgPrivacySettings['locationPrecision']; label: string }[] = [
+  { value: 'approximate', label: 'Approximate (about 1 km, no addresses)' },
+  { value: 'exact', label: 'Exact' },
+  { value: 'none', label: 'Not kept' }
+];
+
+function OrgDashboard({ membership }: OrgDashboardProps) {
+  const [summary, setSummary] = useState<OrgSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reportingYear, setReportingYear] = useState(new Date().getFullYear());
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSummary(await fetchOrgSummary(membership));
+    } catch (error) {
+      console.error("Error loading organisation summary:", error);
+      setError(error instanceof Error ? error.message : 'Could not load the organisation summary.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [membership]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handlePrivacyChange = async (change: Partial<OrgPrivacySettings>) => {
+    try {
+      await updateOrgPrivacy(membership, change);
+      await refresh();
+    } catch (error) {
+      console.error("Error updating privacy settings:", error);
+      setError(error instanceof Error ? error.message : 'Could not update the privacy settings.');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      downloadFile(await fetchScope3Csv(membership, reportingYear), `scope3-commuting-${reportingYear}.csv`, 'text/csv');
+    } catch (error) {
+      console.error("Error exporting Scope 3 CSV:", error);
+      setError(error instanceof Error ? error.message : 'Could not export the CSV.');
+    }
+  };
+
+  const maxBand = Math.max(...(summary?.distanceDistribution.map(band => band.members ?? 0) ?? []), 1);
+
+  return (
+    <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-green-800">Commuting footprint: {membership.orgName}</h2>
+        <button className="p-1.5 text-gray-500 hover:text-green-700" onClick={refresh} title="Refresh">
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </button>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-700">{error}</p>}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="bg-white p-4 rounded-lg shadow-sm">
+              <p className="text-sm text-gray-500">Total per year</p>
+              <p className="text-2xl font-bold text-green-700">{(summary.annualEmissions / 1000).toFixed(2)} t CO₂</p>
+              <p className="text-xs text-gray-500 mt-1">{summary.annualDistance.toLocaleString()} km commuted</p>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm">
+              <p className="text-sm text-gray-500">Per person per year</p>
+              <p className="text-2xl font-bold text-blue-700">{summary.perCapita} kg CO₂</p>
+              <p className="text-xs text-gray-500 mt-1">Averaged over members who submitted a commute</p>
+            </div>
+            <div className="bg-white p-4 rounded-lg shadow-sm">
+              <p className="text-sm text-gray-500">Responses</p>
+              <p className="text-2xl font-bold text-gray-800">{summary.respondents} / {summary.memberCount}</p>
+              <p className="text-xs text-gray-500 mt-1">Join code: <span className="font-mono font-medium">{summary.organisation.joinCode}</span></p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="bg-white p-4 rounded-lg shadow-sm">
+              <h3 className="font-medium text-gray-800 mb-3">Mode split</h3>
+              {summary.modeSplit.length === 0 ? (
+                <p className="text-sm text-gray-500">No commutes submitted yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {summary.modeSplit.map(mode => (
+                    <div key={mode.transportType} className="text-sm">
+                      <div className="flex justify-between text-gray-600">
+                        <span>{mode.transportType} <span className="text-gray-400">· {mode.members} people, {Math.round(mode.share * 100)}% of trips</span></span>
+                        <span className="font-medium">{mode.emissions.toLocaleString()} kg</span>
+                      </div>
+                      <div className="bg-gray-100 rounded-full h-2 mt-1">
+                        <div className="h-2 rounded-full bg-blue-400" style={{ width: `${mode.share * 100}%` }}></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white p-4 rounded-lg shadow-sm">
+              <h3 className="font-medium text-gray-800 mb-3">One-way distance</h3>
+              <div className="space-y-2">
+                {summary.distanceDistribution.map(band => (
+                  <div key={band.label} className="flex items-center text-sm gap-2">
+                    <span className="w-20 text-gray-600">{band.label}</span>
+                    <div className="flex-1 bg-gray-100 rounded-full h-2">
+                      <div className="h-2 rounded-full bg-green-500" style={{ width: `${((band.members ?? 0) / maxBand) * 100}%` }}></div>
+                    </div>
+                    <span className="w-16 text-right text-gray-500">
+                      {band.members === null ? `< ${summary.privacy.minGroupSize}` : band.members}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {summary.members.length > 0 && (
+            <div className="bg-white p-4 rounded-lg shadow-sm mb-4">
+              <h3 className="font-medium text-gray-800 mb-2">Members</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="pb-2 font-medium">Member</th>
+                    <th className="pb-2 font-medium">Modes</th>
+                    <th className="pb-2 font-medium text-right">One way</th>
+                    <th className="pb-2 font-medium text-right">CO₂ per year</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.members.map(member => (
+                    <tr key={member.label} className="border-t border-gray-100">
+                      <td className="py-2 text-gray-700">{member.label}</td>
+                      <td className="py-2 text-gray-600">{member.transportTypes.join(', ')}</td>
+                      <td className="py-2 text-right text-gray-600">{member.distance} km</td>
+                      <td className="py-2 text-right font-medium text-gray-800">{member.annualEmissions} kg</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-white p-4 rounded-lg shadow-sm text-sm">
+              <h3 className="flex items-center font-medium text-gray-800 mb-3">
+                <ShieldCheck className="h-4 w-4 mr-1 text-green-600" /> Privacy
+              </h3>
+              <label className="flex items-center mb-2 text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mr-2 h-4 w-4 text-green-600 rounded"
+                  checked={summary.privacy.showMemberNames}
+                  onChange={(e) => handlePrivacyChange({ showMemberNames: e.target.checked })}
+                />
+                Show member names (otherwise Member 1, 2, ...)
+              </label>
+              <label className="block mb-2 text-xs text-gray-500">
+                Locations kept for new submissions
+                <select
+                  className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                  value={summary.privacy.locationPrecision}
+                  onChange={(e) => handlePrivacyChange({ locationPrecision: e.target.value as OrgPrivacySettings['locationPrecision'] })}
+                >
+                  {locationOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </label>
+              <label className="block text-xs text-gray-500">
+                Minimum group size (smaller groups are merged or hidden; above 1 also hides the member table)
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                  value={summary.privacy.minGroupSize}
+                  onChange={(e) => handlePrivacyChange({ minGroupSize: Math.min(Math.max(parseInt(e.target.value) || 1, 1), 50) })}
+                />
+              </label>
+            </div>
+
+            <div className="bg-white p-4 rounded-lg shadow-sm text-sm">
+              <h3 className="font-medium text-gray-800 mb-2">Scope 3 reporting</h3>
+              <p className="text-gray-500 mb-3">
+                Category 7 (employee commuting), distance-based: one row per commute with annual distance, factor and emissions.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+                  value={reportingYear}
+                  onChange={(e) => setReportingYear(parseInt(e.target.value) || new Date().getFullYear())}
+                  aria-label="Reporting year"
+                />
+                <button
+                  className="flex items-center px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 font-medium hover:border-green-400"
+                  onClick={handleExport}
+                >
+                  <Download className="h-4 w-4 mr-1" /> Export CSV
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default OrgDashboard;
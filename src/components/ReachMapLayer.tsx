@@ -0,0 +1,32 @@
+import { Rectangle, Tooltip } from 'react-leaflet';
+import { getReachColor, type ReachDisplay, type ReachMap } from '../services/reachMap';
+import { formatDuration } from '../services/tripMetrics';
+
+interface ReachMapLayerProps {
+  reachMap: ReachMap;
+  display: ReachDisplay;
+}
+
+function ReachMapLayer({ reachMap, display }: ReachMapLayerProps) {
+  return (
+    <>
+      {reachMap.cells.map(cell => {
+        const color = getReachColor(cell, display);
+        if (!color) return null;
+        return (
+          <Rectangle
+            key={`${cell.bounds[0][0]},${cell.bounds[0][1]}`}
+            bounds={cell.bounds}
+            pathOptions={{ stroke: false, fillColor: color, fillOpacity: 0.35 }}
+          >
+            <Tooltip sticky>
+              {reachMap.transportType}: {cell.emissions} kg CO₂ · {cell.distance} km · {formatDuration(cell.duration)}
+            </Tooltip>
+          </Rectangle>
+        );
+      })}
+    </>
+  );
+}
+
+export default ReachMapLayer;
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Loader2, Map as MapIcon, X } from 'lucide-react';
+import type { Location, TransportType } from '../types';
+import type { RoutingProvider } from '../services/routing';
+import { computeReachMap, reachBands, REACHABLE_COLOR, type ReachDisplay, type ReachMap } from '../services/reachMap';
+
+export interface ReachLayer {
+  reachMap: ReachMap;
+  display: ReachDisplay;
+}
+
+interface ReachMapPanelProps {
+  origin: Location | null;
+  transportTypes: TransportType[];
+  defaultTransportTypeId: string;
+  routingProvider: RoutingProvider;
+  layer: ReachLayer | null;
+  onLayerChange: (layer: ReachLayer | null) => void;
+}
+
+const radiusOptions = [2, 5, 10, 20, 50];
+const selectClassName = 'w-full mt-1 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800';
+
+function ReachMapPanel({ origin, transportTypes, defaultTransportTypeId, routingProvider, layer, onLayerChange }: ReachMapPanelProps) {
+  const [transportTypeId, setTransportTypeId] = useState(defaultTransportTypeId);
+  const [radius, setRadius] = useState(10);
+  const [display, setDisplay] = useState<ReachDisplay>({ kind: 'emissions' });
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShow = async () => {
+    const transportType = transportTypes.find(type => type.id === transportTypeId);
+    if (!origin || !transportType) return;
+    setIsComputing(true);
+    setError(null);
+    try {
+      onLayerChange({ reachMap: await computeReachMap(origin, transportType, routingProvider, radius), display });
+    } catch (error) {
+      console.error("Error computing reach map:", error);
+      setError('Could not compute the reach map.');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  // Display changes apply to the layer already drawn without routing again
+  const handleDisplayChange = (next: ReachDisplay) => {
+    setDisplay(next);
+    if (layer) onLayerChange({ ...layer, display: next });
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg p-4">
+      <h3 className="flex items-center text-sm font-medium text-gray-700 mb-1">
+        <MapIcon className="h-4 w-4 mr-2 text-green-600" /> CO₂ reach map
+      </h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Shade the map around the start point by the CO₂ it takes to get there, e.g. to pick where to meet or live.
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <label className="text-xs text-gray-500">
+          Mode
+          <select className={selectClassName} value={transportTypeId} onChange={(e) => setTransportTypeId(e.target.value)}>
+            {transportTypes.map(type => <option key={type.id} value={type.id}>{type.name}</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          Radius
+          <select className={selectClassName} value={radius} onChange={(e) => setRadius(parseInt(e.target.value))}>
+            {radiusOptions.map(option => <option key={option} value={option}>{option} km</option>)}
+          </select>
+        </label>
+        <label className="text-xs text-gray-500">
+          Show
+          <select
+            className={selectClassName}
+            value={display.kind}
+            onChange={(e) => handleDisplayChange(e.target.value === 'budget' ? { kind: 'budget', maxEmissions: 1, maxDuration: 30 } : { kind: 'emissions' })}
+          >
+            <option value="emissions">CO₂ to get there</option>
+            <option value="budget">Reachable within budget</option>
+          </select>
+        </label>
+        <div className="flex items-end gap-2">
+          <button
+            className="flex-1 flex items-center justify-center px-3 py-1.5 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+            onClick={handleShow}
+            disabled={!origin || isComputing}
+            title={origin ? undefined : 'Set a start point first'}
+          >
+            {isComputing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Show'}
+          </button>
+          {layer && (
+            <button className="p-1.5 text-gray-400 hover:text-red-600" onClick={() => onLayerChange(null)} title="Clear reach map">
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {display.kind === 'budget' && (
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <label className="text-xs text-gray-500">
+            At most (kg CO₂)
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              className={selectClassName}
+              value={display.maxEmissions}
+              onChange={(e) => handleDisplayChange({ ...display, maxEmissions: Math.max(parseFloat(e.target.value) || 0, 0) })}
+            />
+          </label>
+          <label className="text-xs text-gray-500">
+            Within (minutes)
+            <input
+              type="number"
+              min={0}
+              className={selectClassName}
+              value={display.maxDuration}
+              onChange={(e) => handleDisplayChange({ ...display, maxDuration: Math.max(parseInt(e.target.value) || 0, 0) })}
+            />
+          </label>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+      {layer && (
+        <div className="mt-3 text-xs text-gray-600">
+          {layer.display.kind === 'emissions' ? (
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {reachBands.map(band => (
+                <span key={band.label} className="flex items-center">
+                  <span className="inline-block h-3 w-3 rounded-sm mr-1 opacity-70" style={{ backgroundColor: band.color }}></span>
+                  {band.label}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <span className="flex items-center">
+              <span className="inline-block h-3 w-3 rounded-sm mr-1 opacity-70" style={{ backgroundColor: REACHABLE_COLOR }}></span>
+              Reachable by {layer.reachMap.transportType} within {layer.display.maxEmissions} kg CO₂ and {layer.display.maxDuration} min
+            </span>
+          )}
+          <p className="mt-1 text-gray-400">
+            {layer.reachMap.transportType}, {layer.reachMap.radius} km around {layer.reachMap.origin.address || 'the start point'}.{' '}
+            {layer.reachMap.routedProbes > 0
+              ? `Scaled from ${layer.reachMap.routedProbes} routes in different directions.`
+              : 'Straight-line estimate (no routes available).'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReachMapPanel;
@@ -0,0 +1,36 @@
+import { Bike, Bus, Lightbulb, Trophy, Users } from 'lucide-react';
+import type { Recommendation, RecommendationKind } from '../services/recommendations';
+
+interface RecommendationsPanelProps {
+  recommendations: Recommendation[];
+}
+
+const kindIcons: Record<RecommendationKind, typeof Lightbulb> = {
+  switch: Bike,
+  transit: Bus,
+  carpool: Users,
+  best: Trophy
+};
+
+function RecommendationsPanel({ recommendations }: RecommendationsPanelProps) {
+  return (
+    <div className="mt-4 p-4 bg-green-50 rounded-lg border border-green-100">
+      <h3 className="flex items-center font-medium text-green-800 mb-2">
+        <Lightbulb className="h-4 w-4 mr-1" /> Ways to cut this trip's emissions
+      </h3>
+      <ul className="space-y-2">
+        {recommendations.map(recommendation => {
+          const Icon = kindIcons[recommendation.kind];
+          return (
+            <li key={recommendation.id} className="flex items-start text-sm text-gray-700">
+              <Icon className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-green-600" />
+              <span>{recommendation.message}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default RecommendationsPanel;
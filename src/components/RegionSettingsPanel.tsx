@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, ExternalLink, Globe2 } from 'lucide-react';
+import { getRegion, getRegionGrid, regions, type RegionSettings } from '../services/regions';
+import type { DistanceUnit, MassUnit } from '../utils/units';
+
+interface RegionSettingsPanelProps {
+  settings: RegionSettings;
+  onChange: (settings: RegionSettings) => void;
+}
+
+function RegionSettingsPanel({ settings, onChange }: RegionSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const region = getRegion(settings.regionId);
+  const grid = getRegionGrid(region);
+  const localModes = Object.entries(region.modes).filter(([, override]) => override.factor || override.name);
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg">
+      <button
+        className="w-full flex items-center justify-between p-3 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <span className="flex items-center">
+          <Globe2 className="h-4 w-4 mr-2 text-green-600" />
+          Home region: {region.name}
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="p-4 border-t border-gray-200 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Region</label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                value={region.id}
+                onChange={(e) => onChange({ regionId: e.target.value })}
+              >
+                {regions.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Distance</label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                value={settings.distanceUnit ?? region.units.distance}
+                onChange={(e) => onChange({ ...settings, distanceUnit: e.target.value as DistanceUnit })}
+              >
+                <option value="km">Kilometres</option>
+                <option value="mi">Miles</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">CO₂</label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                value={settings.massUnit ?? region.units.mass}
+                onChange={(e) => onChange({ ...settings, massUnit: e.target.value as MassUnit })}
+              >
+                <option value="kg">Kilograms</option>
+                <option value="lb">Pounds</option>
+              </select>
+            </div>
+          </div>
+
+          <ul className="text-xs text-gray-600 space-y-1">
+            <li>
+              Electricity: <span className="font-medium">{grid.name}</span>, {grid.gPerKWh} g CO₂/kWh ({grid.source}, {grid.year})
+            </li>
+            <li>Prices and fares in <span className="font-medium">{region.currency}</span></li>
+            {localModes.map(([id, override]) => (
+              <li key={id}>
+                Local {override.name ?? id}{override.factor && 'gPerKm' in override.factor ? `: ${override.factor.gPerKm} g CO₂/km` : ''}
+                {override.source && ` (${override.source}, ${override.year})`}
+              </li>
+            ))}
+            <li className="flex flex-wrap items-center gap-x-3">
+              Transit:
+              {region.transitOperators.map(operator => (
+                <a
+                  key={operator.url}
+                  href={operator.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center text-green-700 hover:underline"
+                >
+                  {operator.name} <ExternalLink className="h-3 w-3 ml-0.5" />
+                </a>
+              ))}
+            </li>
+          </ul>
+          <p className="text-xs text-gray-500">
+            Changing the region moves the map, sets the grid intensity and applies local fares and factors. Your own prices
+            and the grid intensity can still be adjusted below.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RegionSettingsPanel;
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { GripVertical, MapPin, Plus, Shuffle, Trash2 } from 'lucide-react';
+import type { Location, TransportType, Waypoint } from '../types';
+
+interface StopListProps {
+  start: Location | null;
+  end: Location | null;
+  via: Waypoint[];
+  transportTypes: TransportType[];
+  segmentModes: string[];
+  defaultMode: string;
+  isAddingStops: boolean;
+  onToggleAddingStops: () => void;
+  onReorder: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  onSegmentModeChange: (index: number, transportTypeId: string) => void;
+  onAddStop: (address: string) => Promise<void>;
+  onOptimise: () => void;
+}
+
+function StopList({
+  start,
+  end,
+  via,
+  transportTypes,
+  segmentModes,
+  defaultMode,
+  isAddingStops,
+  onToggleAddingStops,
+  onReorder,
+  onRemove,
+  onSegmentModeChange,
+  onAddStop,
+  onOptimise
+}: StopListProps) {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [newStopAddress, setNewStopAddress] = useState('');
+
+  const items = [
+    ...(start ? [{ key: 'start', label: 'Start', location: start }] : []),
+    ...via.map((stop, index) => ({ key: stop.id, label: `Stop ${index + 1}`, location: stop as Location })),
+    ...(end ? [{ key: 'end', label: 'End', location: end }] : [])
+  ];
+  // Reordering swaps which stop is the start or end, so it needs both to be set
+  const canReorder = start !== null && end !== null;
+
+  const handleAddStop = async () => {
+    if (!newStopAddress.trim()) return;
+    await onAddStop(newStopAddress.trim());
+    setNewStopAddress('');
+  };
+
+  return (
+    <div className="mb-6 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-700">Stops</h3>
+        <div className="flex gap-2">
+          <button
+            className={`flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+              isAddingStops ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300 text-gray-600 hover:border-green-400'
+            }`}
+            onClick={onToggleAddingStops}
+          >
+            <MapPin className="h-3 w-3 mr-1" /> {isAddingStops ? 'Adding stops on map' : 'Add stops on map'}
+          </button>
+          {via.length >= 2 && canReorder && (
+            <button
+              className="flex items-center px-3 py-1 rounded-full text-xs font-medium border border-gray-300 text-gray-600 hover:border-green-400"
+              onClick={onOptimise}
+              title="Reorder the intermediate stops for the lowest estimated emissions"
+            >
+              <Shuffle className="h-3 w-3 mr-1" /> Optimise order
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ol className="space-y-1">
+        {items.map((item, index) => (
+          <li key={item.key}>
+            <div
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm bg-gray-50 ${draggedIndex === index ? 'opacity-50' : ''}`}
+              draggable={canReorder}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (draggedIndex !== null && draggedIndex !== index) {
+                  onReorder(draggedIndex, index);
+                }
+                setDraggedIndex(null);
+              }}
+            >
+              <GripVertical className={`h-4 w-4 shrink-0 ${canReorder ? 'text-gray-400 cursor-grab' : 'text-gray-200'}`} />
+              <span className="w-14 shrink-0 text-xs font-medium text-gray-500">{item.label}</span>
+              <span className="flex-1 truncate text-gray-800">{item.location.address}</span>
+              <button className="p-1 text-gray-400 hover:text-red-600" onClick={() => onRemove(index)}>
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            {via.length > 0 && canReorder && index < items.length - 1 && (
+              <div className="flex items-center pl-9 py-1 text-xs text-gray-500">
+                <span className="mr-2">then by</span>
+                <select
+                  className="px-2 py-0.5 border border-gray-200 rounded text-xs"
+                  value={segmentModes[index] || defaultMode}
+                  onChange={(e) => onSegmentModeChange(index, e.target.value)}
+                >
+                  {transportTypes.map(type => (
+                    <option key={type.id} value={type.id}>{type.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex mt-3 gap-2">
+        <input
+          type="text"
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+          placeholder="Add a stop by address"
+          value={newStopAddress}
+          onChange={(e) => setNewStopAddress(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleAddStop();
+            }
+          }}
+        />
+        <button
+          className="flex items-center px-3 py-1.5 rounded-lg border border-green-500 text-green-700 text-sm font-medium hover:bg-green-50"
+          onClick={handleAddStop}
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default StopList;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { Building2, Loader2, LogOut, Send, Trash2 } from 'lucide-react';
+import type { CommuteSchedule, EmissionResult, OrgCommute, TransportType } from '../types';
+import type { TripLocations } from '../services/tripHistory';
+import { defaultCommuteSchedule, getTripsPerWeek } from '../services/commute';
+import {
+  createOrganisation,
+  deleteCommute,
+  joinOrganisation,
+  leaveOrganisation,
+  listMyCommutes,
+  submitCommute,
+  type Membership
+} from '../services/organisation';
+import { getOneWay } from '../services/tripOptions';
+
+interface TeamPanelProps {
+  membership: Membership | null;
+  onMembershipChange: (membership: Membership | null) => void;
+  result: EmissionResult | null;
+  resultLocations: TripLocations | null;
+  schedule: CommuteSchedule | null;
+  transportTypes: TransportType[];
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500';
+
+function TeamPanel({ membership, onMembershipChange, result, resultLocations, schedule, transportTypes }: TeamPanelProps) {
+  const [displayName, setDisplayName] = useState('');
+  const [orgName, setOrgName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [commutes, setCommutes] = useState<OrgCommute[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!membership) return;
+    listMyCommutes(membership)
+      .then(setCommutes)
+      .catch(error => {
+        console.error("Error loading commutes:", error);
+        setError(error instanceof Error ? error.message : 'Could not load your commutes.');
+      });
+  }, [membership]);
+
+  // Run an API call with a busy state and its error shown in the panel
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error in organisation request:", error);
+      setError(error instanceof Error ? error.message : 'The request failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!membership) {
+    return (
+      <div className="bg-white rounded-xl p-6 shadow-md border border-green-100 mb-6">
+        <h2 className="flex items-center text-xl font-semibold text-green-800 mb-2">
+          <Building2 className="h-5 w-5 mr-2" /> Team commuting
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Join your organisation's workspace to submit your commute, or create one to see your team's combined footprint.
+        </p>
+        {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+        <input className={`${inputClassName} mb-4`} placeholder="Your name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Join with a code</h3>
+            <input className={inputClassName} placeholder="Join code" value={joinCode} onChange={(e) => setJoinCode(e.target.value)} />
+            <button
+              className="w-full px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+              disabled={isBusy || !joinCode.trim() || !displayName.trim()}
+              onClick={() => run(async () => onMembershipChange(await joinOrganisation(joinCode.trim(), displayName.trim())))}
+            >
+              Join
+            </button>
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Create an organisation</h3>
+            <input className={inputClassName} placeholder="Organisation name" value={orgName} onChange={(e) => setOrgName(e.target.value)} />
+            <button
+              className="w-full px-4 py-2 rounded-lg border border-green-600 text-green-700 text-sm font-medium hover:bg-green-50 disabled:opacity-50"
+              disabled={isBusy || !orgName.trim() || !displayName.trim()}
+              onClick={() => run(async () => onMembershipChange(await createOrganisation(orgName.trim(), displayName.trim())))}
+            >
+              Create and become admin
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const commuteSchedule = schedule ?? defaultCommuteSchedule;
+  const canSubmit = result && resultLocations && !result.segments;
+
+  const handleSubmit = () => run(async () => {
+    if (!result || !resultLocations) return;
+    const transportType = transportTypes.find(type => type.id === result.transportTypeId);
+    const commute = await submitCommute(membership, result, resultLocations, commuteSchedule, transportType);
+    setCommutes([...commutes, commute]);
+  });
+
+  const handleDelete = (id: string) => run(async () => {
+    await deleteCommute(membership, id);
+    setCommutes(commutes.filter(commute => commute.id !== id));
+  });
+
+  const handleLeave = () => run(async () => {
+    if (!window.confirm(`Leave ${membership.orgName}? Your submitted commutes will be deleted.`)) return;
+    await leaveOrganisation(membership);
+    onMembershipChange(null);
+  });
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="flex items-center text-xl font-semibold text-green-800">
+          <Building2 className="h-5 w-5 mr-2" /> {membership.orgName}
+        </h2>
+        <button className="flex items-center text-sm text-gray-500 hover:text-red-600" onClick={handleLeave} disabled={isBusy}>
+          <LogOut className="h-4 w-4 mr-1" /> Leave
+        </button>
+      </div>
+      {membership.joinCode && (
+        <p className="text-sm text-gray-500 mb-3">
+          Invite colleagues with the join code <span className="font-mono font-medium text-gray-800">{membership.joinCode}</span>.
+        </p>
+      )}
+      {error && <p className="mb-3 text-sm text-red-700">{error}</p>}
+
+      <div className="bg-green-50 rounded-lg p-4 mb-4 text-sm">
+        {canSubmit ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <p className="flex-1 text-gray-700">
+              Latest calculation: {getOneWay(result).distance} km one way by {result.transportType}, {getTripsPerWeek(commuteSchedule)} trips a week for {commuteSchedule.weeksPerYear} weeks
+              {!schedule && ' (default schedule; set yours under "This is a recurring commute")'}.
+            </p>
+            <button
+              className="flex items-center px-4 py-2 rounded-lg bg-green-600 text-white font-medium hover:bg-green-700 disabled:opacity-50"
+              onClick={handleSubmit}
+              disabled={isBusy}
+            >
+              {isBusy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />} Submit commute
+            </button>
+          </div>
+        ) : (
+          <p className="text-gray-600">
+            Calculate your commute (home to work, without intermediate stops) in the calculator, then submit it here.
+          </p>
+        )}
+      </div>
+
+      <h3 className="font-medium text-gray-800 mb-2">Your submitted commutes</h3>
+      {commutes.length === 0 ? (
+        <p className="text-sm text-gray-500">None yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {commutes.map(commute => (
+            <li key={commute.id} className="py-2 flex items-center justify-between">
+              <span className="text-gray-700">
+                {commute.transportType} · {commute.distance} km one way · {getTripsPerWeek(commute.schedule)} trips a week
+                {commute.start && commute.end && <span className="text-gray-400"> · {commute.start.address} → {commute.end.address}</span>}
+              </span>
+              <button className="p-1 text-gray-400 hover:text-red-600" onClick={() => handleDelete(commute.id)} title="Delete commute">
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TeamPanel;
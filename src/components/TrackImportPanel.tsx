@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { Loader2, MapPinned, Trash2, Upload } from 'lucide-react';
+import type { LatLngTuple, Location, SavedTrip, TransportType } from '../types';
+import { analyseTrack, parseGpsFile, thinTrack, trackToResult, type TrackSummary } from '../services/gpsTracks';
+import { createTrip } from '../services/tripHistory';
+
+interface TrackImportPanelProps {
+  transportTypes: TransportType[];
+  defaultTransportTypeId: string;
+  getAddress: (lat: number, lng: number) => Promise<string>;
+  onPreview: (paths: LatLngTuple[][]) => void;
+  onSave: (trips: SavedTrip[]) => void;
+}
+
+interface ImportedTrack {
+  id: string;
+  summary: TrackSummary;
+  transportTypeId: string | null; // null follows the inferred or default mode
+}
+
+function TrackImportPanel({ transportTypes, defaultTransportTypeId, getAddress, onPreview, onSave }: TrackImportPanelProps) {
+  const [tracks, setTracks] = useState<ImportedTrack[]>([]);
+  const [inferModes, setInferModes] = useState(true);
+  const [tag, setTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Take the previews off the map when the panel closes
+  useEffect(() => () => onPreview([]), [onPreview]);
+
+  const updateTracks = (next: ImportedTrack[]) => {
+    setTracks(next);
+    onPreview(next.map(track => thinTrack(track.summary.points)));
+  };
+
+  const getModeId = (track: ImportedTrack) => {
+    return track.transportTypeId ?? (inferModes ? track.summary.inferredMode?.transportTypeId : undefined) ?? defaultTransportTypeId;
+  };
+
+  const handleFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const imported: ImportedTrack[] = [];
+    const skipped: string[] = [];
+    for (const file of files) {
+      const parsed = parseGpsFile(await file.text(), file.name);
+      if (parsed.length === 0) skipped.push(file.name);
+      parsed.forEach((track, index) => imported.push({
+        id: `${file.name}-${index}-${Date.now()}`,
+        summary: analyseTrack(track),
+        transportTypeId: null
+      }));
+    }
+    setSkippedFiles(skipped);
+    updateTracks([...tracks, ...imported.filter(track => track.summary.distance > 0)]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const toLocation = async ({ lat, lng }: { lat: number; lng: number }): Promise<Location> => ({ lat, lng, address: await getAddress(lat, lng) });
+    try {
+      const trips = await Promise.all(tracks.map(async track => {
+        const transportType = transportTypes.find(type => type.id === getModeId(track)) ?? transportTypes[0];
+        const result = trackToResult(track.summary, transportType);
+        const points = track.summary.points;
+        const [start, end] = await Promise.all([toLocation(points[0]), toLocation(points[points.length - 1])]);
+        const trip = createTrip(result, { start, end, via: [] }, tag);
+        return { ...trip, timestamp: track.summary.startTime ?? trip.timestamp, track: result.routeGeometry };
+      }));
+      onSave(trips);
+      updateTracks([]);
+      setTag('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="flex items-center text-xl font-semibold text-green-800">
+          <MapPinned className="h-5 w-5 mr-2" /> Import GPS tracks
+        </h2>
+        <button
+          className="flex items-center px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:border-green-400"
+          onClick={() => inputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-1" /> Choose files
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".gpx,.kml,.geojson,.json"
+          className="hidden"
+          onChange={handleFiles}
+        />
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        Add trips you have already taken from GPX, KML or GeoJSON recordings. Each track becomes a trip priced on its recorded length; time spent stopped is left out.
+      </p>
+
+      {skippedFiles.length > 0 && (
+        <p className="text-sm text-amber-700 mb-3">No tracks found in {skippedFiles.join(', ')}.</p>
+      )}
+
+      {tracks.length > 0 && (
+        <>
+          <label className="flex items-center mb-3 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-2 h-4 w-4 text-green-600 rounded"
+              checked={inferModes}
+              onChange={(e) => setInferModes(e.target.checked)}
+            />
+            Guess the transport mode from each track's speed
+          </label>
+          <ul className="divide-y divide-gray-100 mb-3">
+            {tracks.map(track => {
+              const { summary } = track;
+              return (
+                <li key={track.id} className="py-2 flex flex-wrap items-center gap-2 text-sm">
+                  <div className="flex-1 min-w-[12rem]">
+                    <p className="font-medium text-gray-800">{summary.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {summary.startTime && `${new Date(summary.startTime).toLocaleString()} · `}
+                      {summary.distance} km
+                      {summary.duration !== undefined && ` · ${summary.duration} min moving`}
+                      {summary.stationaryMinutes > 0 && ` · ${summary.stationaryMinutes} min stopped`}
+                      {inferModes && summary.inferredMode && ` · looks like ${summary.inferredMode.activity} (median ${summary.inferredMode.medianSpeed} km/h)`}
+                      {inferModes && !summary.inferredMode && ' · no timestamps to guess the mode'}
+                    </p>
+                  </div>
+                  <select
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    value={getModeId(track)}
+                    onChange={(e) => updateTracks(tracks.map(item => (item.id === track.id ? { ...item, transportTypeId: e.target.value } : item)))}
+                  >
+                    {transportTypes.map(type => <option key={type.id} value={type.id}>{type.name}</option>)}
+                  </select>
+                  <button
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    onClick={() => updateTracks(tracks.filter(item => item.id !== track.id))}
+                    title="Remove track"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              placeholder="Optional tag for these trips, e.g. commute"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+            />
+            <button
+              className="flex items-center px-4 py-2 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save {tracks.length} {tracks.length === 1 ? 'trip' : 'trips'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TrackImportPanel;
@@ -0,0 +1,142 @@
+import { ArrowRight, Footprints, TrainFront } from 'lucide-react';
+import type { TransitItinerary, TransportType } from '../types';
+import {
+  applyLegFactors,
+  countTransfers,
+  getWalkingDistance,
+  itineraryLabels,
+  labelItineraries,
+  legModes,
+  sumLegs
+} from '../services/transit';
+import { formatDuration } from '../services/tripMetrics';
+import { applyTransitLoad, type TransitLoad } from '../services/tripOptions';
+import { formatDistance, formatMass, type DisplayUnits } from '../utils/units';
+
+interface TransitAlternativesPanelProps {
+  itineraries: TransitItinerary[];
+  selectedIndex: number;
+  transportTypes: TransportType[];
+  transitLoad: TransitLoad;
+  units: DisplayUnits;
+  onSelect: (index: number) => void;
+}
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// When each leg starts: its scheduled departure, or straight after the previous leg for walks
+const getLegStarts = (itinerary: TransitItinerary): (number | null)[] => {
+  let clock = itinerary.departureTime ? Date.parse(itinerary.departureTime) : null;
+  return itinerary.legs.map(leg => {
+    const start = leg.departureTime ? Date.parse(leg.departureTime) : clock;
+    clock = leg.arrivalTime ? Date.parse(leg.arrivalTime) : start !== null ? start + (leg.duration ?? 0) * 60000 : null;
+    return start;
+  });
+};
+
+function TransitAlternativesPanel({ itineraries, selectedIndex, transportTypes, transitLoad, units, onSelect }: TransitAlternativesPanelProps) {
+  const labels = labelItineraries(itineraries, transportTypes);
+  const selected = itineraries[selectedIndex];
+  const legStarts = selected ? getLegStarts(selected) : [];
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded-lg shadow-sm">
+      <h3 className="flex items-center font-medium text-gray-800 mb-3">
+        <TrainFront className="h-4 w-4 mr-2 text-green-600" />
+        {itineraries.length > 1 ? 'Transit alternatives' : 'Transit itinerary'}
+      </h3>
+
+      {itineraries.length > 1 && (
+        <ul className="space-y-2 mb-4">
+          {itineraries.map((itinerary, index) => {
+            const transfers = countTransfers(itinerary);
+            const emissions = sumLegs(applyLegFactors(applyTransitLoad(itinerary.legs, transitLoad), transportTypes)).emissions;
+            return (
+              <li key={index}>
+                <button
+                  className={`w-full text-left p-3 rounded-lg border text-sm transition-all ${
+                    index === selectedIndex ? 'border-green-500 bg-green-50' : 'border-gray-200 hover:border-green-300'
+                  }`}
+                  onClick={() => onSelect(index)}
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium text-gray-800">
+                      {itinerary.departureTime && itinerary.arrivalTime
+                        ? `${formatClock(Date.parse(itinerary.departureTime))} – ${formatClock(Date.parse(itinerary.arrivalTime))}`
+                        : `Option ${index + 1}`}
+                      <span className="ml-2 font-normal text-gray-500">{formatDuration(itinerary.duration)}</span>
+                    </span>
+                    <span className="flex flex-wrap gap-1">
+                      {labels[index].map(label => (
+                        <span key={label} className="px-2 py-0.5 rounded-full text-xs font-medium text-green-700 bg-green-100">
+                          {itineraryLabels[label]}
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 mt-1">
+                    {itinerary.legs.filter(leg => leg.mode !== 'walk').map((leg, legIndex) => (
+                      <span key={legIndex} className="inline-flex items-center">
+                        {legIndex > 0 && <ArrowRight className="h-3 w-3 mx-0.5 text-gray-400" />}
+                        <span
+                          className="px-1.5 py-0.5 rounded text-xs font-medium text-white"
+                          style={{ backgroundColor: leg.color ?? legModes[leg.mode].color }}
+                        >
+                          {leg.label}
+                        </span>
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {transfers === 0 ? 'No transfers' : `${transfers} transfer${transfers === 1 ? '' : 's'}`}
+                    {' · '}{formatDistance(getWalkingDistance(itinerary), units)} walking
+                    {' · '}{formatMass(emissions, units)} CO₂
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {selected && (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-3">
+          {selected.legs.map((leg, index) => {
+            const start = legStarts[index];
+            return (
+              <li key={index} className="ml-4 text-sm">
+                <span
+                  className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full"
+                  style={{ backgroundColor: leg.color ?? legModes[leg.mode].color }}
+                ></span>
+                <div className="flex items-baseline gap-2">
+                  <span className="w-16 shrink-0 text-xs text-gray-500">{start !== null ? formatClock(start) : ''}</span>
+                  {leg.mode === 'walk' ? (
+                    <span className="flex items-center text-gray-600">
+                      <Footprints className="h-3 w-3 mr-1" />
+                      Walk {formatDistance(leg.distance, units, 2)}
+                      {leg.duration !== undefined && ` · ${formatDuration(Math.max(leg.duration, 1))}`}
+                    </span>
+                  ) : (
+                    <span className="text-gray-800">
+                      <span className="font-medium">{legModes[leg.mode].name} {leg.label}</span>
+                      {leg.headsign && <span className="text-gray-500"> towards {leg.headsign}</span>}
+                      {leg.departureStop && leg.arrivalStop && (
+                        <span className="block text-xs text-gray-500">
+                          {leg.departureStop} → {leg.arrivalStop}
+                          {leg.duration !== undefined && ` · ${formatDuration(leg.duration)}`}
+                        </span>
+                      )}
+                    </span>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default TransitAlternativesPanel;
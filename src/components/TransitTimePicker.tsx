@@ -0,0 +1,48 @@
+import { Clock } from 'lucide-react';
+import type { TransitTime } from '../services/transit';
+
+interface TransitTimePickerProps {
+  value: TransitTime | null; // null to leave now
+  onChange: (value: TransitTime | null) => void;
+}
+
+// Local date and time in the form datetime-local inputs use
+const toInputValue = (time: number) => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+function TransitTimePicker({ value, onChange }: TransitTimePickerProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+      <Clock className="h-4 w-4 text-green-600" />
+      <select
+        className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-800"
+        value={value?.type ?? 'now'}
+        onChange={(e) => {
+          const type = e.target.value;
+          onChange(type === 'depart-at' || type === 'arrive-by' ? { type, time: value?.time ?? Date.now() } : null);
+        }}
+      >
+        <option value="now">Leave now</option>
+        <option value="depart-at">Depart at</option>
+        <option value="arrive-by">Arrive by</option>
+      </select>
+      {value && (
+        <input
+          type="datetime-local"
+          className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-800"
+          value={toInputValue(value.time)}
+          onChange={(e) => {
+            const time = new Date(e.target.value).getTime();
+            if (Number.isFinite(time)) onChange({ ...value, time });
+          }}
+        />
+      )}
+      <span className="text-xs text-gray-500">Transit schedules for this time</span>
+    </div>
+  );
+}
+
+export default TransitTimePicker;
@@ -0,0 +1,30 @@
+import { Bike, BatteryCharging, Bus, Car, CarTaxiFront, Footprints, Fuel, Leaf, Plane, Ship, TrainFront, Zap } from 'lucide-react';
+
+const icons = {
+  walking: Footprints,
+  cycling: Bike,
+  'e-bike': BatteryCharging,
+  motorcycle: Bike,
+  car: Car,
+  hybrid: Leaf,
+  diesel: Fuel,
+  electric: Zap,
+  taxi: CarTaxiFront,
+  bus: Bus,
+  skytrain: TrainFront,
+  ferry: Ship,
+  flight: Plane
+};
+
+interface TransportIconProps {
+  name: string;
+  className?: string;
+}
+
+// Lucide icon for a catalogue icon key
+function TransportIcon({ name, className = 'h-4 w-4' }: TransportIconProps) {
+  const Icon = icons[name as keyof typeof icons] || Car;
+  return <Icon className={className} />;
+}
+
+export default TransportIcon;
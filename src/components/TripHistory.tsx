@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Check, Pencil, Trash2, X } from 'lucide-react';
+import type { SavedTrip, TransportType } from '../types';
+import { formatDistance, formatMass, type DisplayUnits } from '../utils/units';
+
+interface TripHistoryProps {
+  trips: SavedTrip[];
+  transportTypes: TransportType[];
+  units: DisplayUnits;
+  onUpdate: (trip: SavedTrip) => void;
+  onDelete: (id: string) => void;
+}
+
+// Local date in the yyyy-mm-dd form used by date inputs
+const toDateInput = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+function TripHistory({ trips, transportTypes, units, onUpdate, onDelete }: TripHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ tag: '', transportTypeId: '', date: '' });
+
+  const sorted = [...trips].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  const startEditing = (trip: SavedTrip) => {
+    setEditingId(trip.id);
+    setDraft({ tag: trip.tag ?? '', transportTypeId: trip.transportTypeId, date: toDateInput(trip.timestamp) });
+  };
+
+  const saveEdit = (trip: SavedTrip) => {
+    const transportType = transportTypes.find(type => type.id === draft.transportTypeId);
+    const [year, month, day] = draft.date.split('-').map(Number);
+    const timestamp = new Date(trip.timestamp);
+    if (year && month && day) {
+      timestamp.setFullYear(year, month - 1, day);
+    }
+
+    onUpdate({
+      ...trip,
+      tag: draft.tag.trim() || undefined,
+      timestamp: timestamp.toISOString(),
+      // Re-price the trip when its mode changes, keeping the recorded distance
+      ...(transportType && transportType.id !== trip.transportTypeId && {
+        transportTypeId: transportType.id,
+        transportType: transportType.name,
+        emissions: parseFloat(((trip.distance * transportType.emissionFactor) / 1000).toFixed(2))
+      })
+    });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-md border border-green-100 mb-6">
+      <h2 className="text-xl font-semibold text-green-800 mb-4">Trip History</h2>
+      {sorted.length === 0 ? (
+        <p className="text-sm text-gray-500">Calculate a trip and press "Save trip" to start tracking your footprint.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sorted.map(trip => (
+            <li key={trip.id} className="py-3">
+              {editingId === trip.id ? (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center">
+                  <input
+                    type="date"
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                  />
+                  <select
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    value={draft.transportTypeId}
+                    onChange={(e) => setDraft({ ...draft, transportTypeId: e.target.value })}
+                  >
+                    {!transportTypes.some(type => type.id === trip.transportTypeId) && (
+                      <option value={trip.transportTypeId}>{trip.transportType}</option>
+                    )}
+                    {transportTypes.map(type => (
+                      <option key={type.id} value={type.id}>{type.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    placeholder="Tag, e.g. commute"
+                    value={draft.tag}
+                    onChange={(e) => setDraft({ ...draft, tag: e.target.value })}
+                  />
+                  <div className="flex gap-2 justify-end">
+                    <button className="p-1 text-green-600 hover:text-green-800" onClick={() => saveEdit(trip)}>
+                      <Check className="h-4 w-4" />
+                    </button>
+                    <button className="p-1 text-gray-400 hover:text-gray-600" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">
+                      {trip.start.address} → {trip.end.address}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(trip.timestamp).toLocaleDateString()} · {trip.transportType} · {formatDistance(trip.distance, units)}
+                      {trip.tag && <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-700 rounded-full">{trip.tag}</span>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-sm font-semibold text-green-700">{formatMass(trip.emissions, units)}</span>
+                    <button className="p-1 text-gray-400 hover:text-green-600" onClick={() => startEditing(trip)}>
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button className="p-1 text-gray-400 hover:text-red-600" onClick={() => onDelete(trip.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TripHistory;
@@ -0,0 +1,39 @@
+import { useRef, type ChangeEvent } from 'react';
+import { Upload } from 'lucide-react';
+import { parseTripJson, type TripState } from '../services/tripSharing';
+
+interface TripImportButtonProps {
+  onImport: (state: TripState) => void;
+  onError: (message: string) => void;
+}
+
+function TripImportButton({ onImport, onError }: TripImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const state = parseTripJson(await file.text());
+    if (state) {
+      onImport(state);
+    } else {
+      onError(`${file.name} is not a trip exported from this calculator.`);
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="flex items-center px-3 py-1 rounded-full text-xs font-medium border border-gray-300 text-gray-600 hover:border-green-400"
+        onClick={() => inputRef.current?.click()}
+      >
+        <Upload className="h-3 w-3 mr-1" /> Import trip
+      </button>
+      <input ref={inputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+    </>
+  );
+}
+
+export default TripImportButton;
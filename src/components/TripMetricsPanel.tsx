@@ -0,0 +1,55 @@
+import { Car, Smartphone, TreeDeciduous } from 'lucide-react';
+import { formatDuration, type TripMetrics } from '../services/tripMetrics';
+import { formatDistance, formatMass, formatMoney, type DisplayUnits } from '../utils/units';
+
+interface TripMetricsPanelProps {
+  metrics: TripMetrics;
+  units: DisplayUnits;
+}
+
+function TripMetricsPanel({ metrics, units }: TripMetricsPanelProps) {
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-500">Travel Time</p>
+          <p className="text-2xl font-bold text-gray-700">{metrics.duration !== null ? formatDuration(metrics.duration) : '–'}</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-500">Cost</p>
+          <p className="text-2xl font-bold text-gray-700">{formatMoney(metrics.cost, units)}</p>
+          <p className="text-xs text-gray-500 mt-1">Fuel, electricity or fare; prices can be changed under emission factors</p>
+        </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm">
+          <p className="text-sm text-gray-500">Calories Burned</p>
+          <p className="text-2xl font-bold text-orange-600">{metrics.calories} kcal</p>
+          <p className="text-xs text-gray-500 mt-1">Walking and cycling, for a 70 kg adult</p>
+        </div>
+      </div>
+      <div className="mt-4 p-4 bg-white rounded-lg shadow-sm">
+        <h3 className="font-medium text-gray-800 mb-2">That's about</h3>
+        <ul className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-700">
+          <li className="flex items-start">
+            <TreeDeciduous className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-green-600" />
+            <span>{metrics.treeDays < 10 ? metrics.treeDays.toFixed(1) : Math.round(metrics.treeDays)} days of a tree absorbing CO₂</span>
+          </li>
+          <li className="flex items-start">
+            <Smartphone className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-blue-600" />
+            <span>{metrics.phoneCharges.toLocaleString()} smartphone charges</span>
+          </li>
+          {metrics.drivingKm !== null && (
+            <li className="flex items-start">
+              <Car className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-gray-600" />
+              <span>
+                {formatDistance(metrics.drivingKm, units)} of driving a petrol car
+                {metrics.savedVsDriving !== null && metrics.savedVsDriving > 0 && `; ${formatMass(metrics.savedVsDriving, units)} less than driving this trip`}
+              </span>
+            </li>
+          )}
+        </ul>
+      </div>
+    </>
+  );
+}
+
+export default TripMetricsPanel;
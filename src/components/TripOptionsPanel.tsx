@@ -0,0 +1,56 @@
+import { ArrowLeftRight, TrainFront, Users } from 'lucide-react';
+import { MAX_PASSENGERS, transitLoads, type TransitLoad, type TripOptions } from '../services/tripOptions';
+
+interface TripOptionsPanelProps {
+  options: TripOptions;
+  onChange: (options: TripOptions) => void;
+}
+
+const selectClassName = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-800';
+
+function TripOptionsPanel({ options, onChange }: TripOptionsPanelProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 text-sm text-gray-700">
+      <label className="flex items-center gap-2">
+        <Users className="h-4 w-4 text-green-600" />
+        <select
+          className={selectClassName}
+          value={options.passengers ?? ''}
+          onChange={(e) => onChange({ ...options, passengers: e.target.value ? parseInt(e.target.value) : null })}
+        >
+          <option value="">Usual occupancy</option>
+          {Array.from({ length: MAX_PASSENGERS }, (_, index) => index + 1).map(count => (
+            <option key={count} value={count}>{count === 1 ? 'Travelling alone' : `${count} people`}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-green-600 rounded"
+          checked={options.roundTrip}
+          onChange={(e) => onChange({ ...options, roundTrip: e.target.checked })}
+        />
+        <ArrowLeftRight className="h-4 w-4 text-green-600" />
+        Round trip
+      </label>
+      <label className="flex items-center gap-2">
+        <TrainFront className="h-4 w-4 text-green-600" />
+        <select
+          className={selectClassName}
+          value={options.transitLoad}
+          onChange={(e) => onChange({ ...options, transitLoad: e.target.value as TransitLoad })}
+        >
+          {(Object.entries(transitLoads) as [TransitLoad, { name: string }][]).map(([id, load]) => (
+            <option key={id} value={id}>Transit: {load.name}</option>
+          ))}
+        </select>
+      </label>
+      <span className="w-full text-xs text-gray-500">
+        Cars are split between the people in them; emissions are shown per person
+      </span>
+    </div>
+  );
+}
+
+export default TripOptionsPanel;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { batchToCsv, createLocationResolver, parseBatchCsv, parseCoordinates, runBatch, type Location } from '..';
+import type { GeocodingProvider } from '../../services/geocoding';
+import { parseCsv, toCsv } from '../../utils/csv';
+
+describe('csv', () => {
+  it('parses quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('\uFEFFid,from\r\n1,"49.28,-123.12"\r\n2,"Say ""hi"""\r\n')).toEqual([
+      { id: '1', from: '49.28,-123.12' },
+      { id: '2', from: 'Say "hi"' }
+    ]);
+  });
+
+  it('quotes values that need it and leaves missing values empty', () => {
+    expect(toCsv([['a', 'b', 'c'], ['x,y', 'say "hi"', undefined], [1.5, undefined, 'z']])).toBe(
+      'a,b,c\r\n"x,y","say ""hi""",\r\n1.5,,z\r\n'
+    );
+  });
+
+  it('round-trips its own output', () => {
+    const text = toCsv([['id', 'note'], ['1', 'line\nbreak, "quoted"']]);
+    expect(parseCsv(text)).toEqual([{ id: '1', note: 'line\nbreak, "quoted"' }]);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads "lat,lng" with or without a space', () => {
+    expect(parseCoordinates('49.2827,-123.1207')).toMatchObject({ lat: 49.2827, lng: -123.1207 });
+    expect(parseCoordinates(' 51.5, -0.12 ')).toMatchObject({ lat: 51.5, lng: -0.12 });
+  });
+
+  it('rejects addresses and out-of-range coordinates', () => {
+    expect(parseCoordinates('Waterfront Station')).toBeNull();
+    expect(parseCoordinates('91,0')).toBeNull();
+    expect(parseCoordinates('0,181')).toBeNull();
+  });
+});
+
+describe('createLocationResolver', () => {
+  const ubc: Location = { lat: 49.267, lng: -123.246, address: 'UBC, Vancouver' };
+  const geocoder: GeocodingProvider = {
+    name: 'Stub',
+    search: async (query) => (query === 'UBC' ? [ubc] : []),
+    reverse: async () => null
+  };
+
+  it('geocodes addresses and passes coordinates through', async () => {
+    const resolve = createLocationResolver(geocoder);
+    expect(await resolve('UBC')).toEqual(ubc);
+    expect(await resolve('49.2857,-123.1115')).toMatchObject({ lat: 49.2857, lng: -123.1115 });
+    expect(await resolve('Atlantis')).toBeNull();
+  });
+
+  it('only understands coordinates without a geocoder', async () => {
+    expect(await createLocationResolver()('UBC')).toBeNull();
+  });
+});
+
+describe('parseBatchCsv', () => {
+  it('reads trips with defaults for the optional columns', () => {
+    const trips = parseBatchCsv([
+      'id,from,to,mode,passengers,round_trip',
+      'home,"49.2857,-123.1115","49.267,-123.246",bus,,',
+      ',"49.2857,-123.1115","49.267,-123.246",,3,yes'
+    ].join('\n'));
+    expect(trips).toEqual([
+      { line: 2, id: 'home', from: '49.2857,-123.1115', to: '49.267,-123.246', mode: 'bus', passengers: undefined, roundTrip: undefined },
+      { line: 3, id: '2', from: '49.2857,-123.1115', to: '49.267,-123.246', mode: 'gas-car', passengers: 3, roundTrip: true }
+    ]);
+  });
+
+  it('needs the from and to columns', () => {
+    expect(() => parseBatchCsv('from,mode\n"49.28,-123.11",bus')).toThrow('missing the column to');
+    expect(parseBatchCsv('')).toEqual([]);
+  });
+});
+
+describe('runBatch', () => {
+  it('calculates each trip and records the ones that fail', async () => {
+    const trips = parseBatchCsv([
+      'id,from,to,mode,passengers,round_trip',
+      'a,"49.2857,-123.1115","49.267,-123.246",gas-car,2,true',
+      'b,Nowhere,"49.267,-123.246",bus,,',
+      'c,"49.2857,-123.1115","49.267,-123.246",rocket,,'
+    ].join('\n'));
+    const progress: number[] = [];
+    const rows = await runBatch(trips, {}, createLocationResolver(), done => progress.push(done));
+
+    expect(progress).toEqual([1, 2, 3]);
+    expect(rows[0].result).toMatchObject({ distance: 19.95, emissions: 1.71, vehicleEmissions: 3.41, passengers: 2, roundTrip: true });
+    expect(rows[1]).toMatchObject({ result: null, error: 'Could not find location: Nowhere' });
+    expect(rows[2].error).toMatch(/^Unknown mode "rocket"/);
+
+    const [car, missing, unknownMode] = parseCsv(batchToCsv(rows)).map(row => Object.values(row));
+    expect(car).toEqual(['a', '49.2857,-123.1115', '49.267,-123.246', 'gas-car', '2', 'true', '19.95', 'straight-line', '34', '1.71', '3.41', '']);
+    expect(missing.slice(-1)).toEqual(['Could not find location: Nowhere']);
+    expect(unknownMode[6]).toBe('');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodePolyline,
+  parseDirectionsRoute,
+  parseTransitDirections,
+  sumLegs,
+  type DirectionsResponse,
+  type TransitDirectionsResponse
+} from '..';
+import drivingDirections from './fixtures/directions-driving.json';
+import transitDirections from './fixtures/directions-transit.json';
+
+// Recorded from the Directions API (through the mock upstream's GTFS planner) for Waterfront Station to UBC:
+// three Canada Line + 99 routes a few minutes apart and one route 14 trolleybus
+const transit = transitDirections as TransitDirectionsResponse;
+const driving = drivingDirections as DirectionsResponse;
+
+describe('parseTransitDirections', () => {
+  const itineraries = parseTransitDirections(transit);
+
+  it('returns every alternative route', () => {
+    expect(itineraries).toHaveLength(4);
+    expect(itineraries.map(itinerary => itinerary.transit.map(step => step.line_name))).toEqual([
+      ['Canada Line', '99'],
+      ['Canada Line', '99'],
+      ['Canada Line', '99'],
+      ['14']
+    ]);
+  });
+
+  it('keeps walks as legs and maps vehicles to leg modes', () => {
+    expect(itineraries[0].legs.map(leg => [leg.mode, leg.label, leg.distance])).toEqual([
+      ['walk', 'Walk', 0.04],
+      ['skytrain', 'Canada Line', 2.93],
+      ['bus', '99', 9.63],
+      ['walk', 'Walk', 0.13]
+    ]);
+    expect(itineraries[3].legs.map(leg => leg.mode)).toEqual(['walk', 'trolleybus', 'walk']);
+  });
+
+  it('reads the schedule', () => {
+    expect(itineraries.map(itinerary => itinerary.departureTime)).toEqual([
+      '2025-06-02T15:05:31.000Z',
+      '2025-06-02T15:11:31.000Z',
+      '2025-06-02T15:17:31.000Z',
+      '2025-06-02T15:11:24.000Z'
+    ]);
+    expect(itineraries[3].arrivalTime).toBe('2025-06-02T15:54:32.000Z');
+    expect(itineraries[0].duration).toBeCloseTo(32, 0);
+    expect(itineraries[3].transit[0]).toMatchObject({
+      vehicle_type: 'TROLLEYBUS',
+      departure_stop: 'Hastings St & Granville St',
+      arrival_stop: 'UBC Exchange',
+      headsign: 'UBC',
+      num_stops: 4,
+      transit_distance: 10.57
+    });
+  });
+
+  it('sums the legs into the route distance', () => {
+    expect(sumLegs(itineraries[0].legs).distance).toBeCloseTo(12.73, 2);
+    expect(sumLegs(itineraries[0].legs).emissions).toBeCloseTo(0.331, 3);
+  });
+
+  it('returns nothing when there is no route', () => {
+    expect(parseTransitDirections({ status: 'ZERO_RESULTS', routes: [] })).toEqual([]);
+    expect(parseTransitDirections({ status: 'ZERO_RESULTS' })).toEqual([]);
+  });
+});
+
+describe('parseDirectionsRoute', () => {
+  it('reads the distance, duration and path of the first route', () => {
+    const route = parseDirectionsRoute(driving);
+    expect(route?.distance).toBe(12.969);
+    expect(route?.duration).toBeCloseTo(19.45, 2);
+    expect(route?.geometry).toEqual(decodePolyline('sbykHzelnVzsBrgY'));
+  });
+
+  it('returns null when there is no route', () => {
+    expect(parseDirectionsRoute({ status: 'ZERO_RESULTS', routes: [] })).toBeNull();
+  });
+});
+
+describe('decodePolyline', () => {
+  it('decodes the encoded polyline format', () => {
+    // The example from Google's polyline algorithm documentation
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual([
+      [38.5, -120.2],
+      [40.7, -120.95],
+      [43.252, -126.453]
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTripOptions,
+  buildTransportTypes,
+  compareTransportTypes,
+  createCalculator,
+  defaultFactorSettings,
+  defaultTripOptions,
+  estimateItinerary,
+  estimateTrip,
+  getLowestEmission,
+  parseTransitDirections,
+  type Location,
+  type RoutingProvider,
+  type TransitDirectionsResponse,
+  type TransportType,
+  type TripOptions
+} from '..';
+import transitDirections from './fixtures/directions-transit.json';
+
+const waterfront: Location = { lat: 49.2857, lng: -123.1115, address: 'Waterfront Station' };
+const ubc: Location = { lat: 49.267, lng: -123.246, address: 'UBC' };
+const kitsilano: Location = { lat: 49.2684, lng: -123.1683, address: 'Kitsilano' };
+
+// A routing provider that returns the same 12.969 km, 19.45 min route for every request
+const fixedRouting: RoutingProvider = {
+  name: 'Fixed',
+  getRoute: async () => ({ distance: 12.969, duration: 19.45, geometry: [[49.2857, -123.1115], [49.267, -123.246]], provider: 'Fixed' })
+};
+const noRouting: RoutingProvider = { name: 'None', getRoute: async () => null };
+
+const transportTypes = buildTransportTypes(defaultFactorSettings);
+const findType = (id: string, types = transportTypes): TransportType => types.find(type => type.id === id)!;
+const [itinerary] = parseTransitDirections(transitDirections as TransitDirectionsResponse);
+
+describe('estimateTrip', () => {
+  it('uses the routed distance', async () => {
+    const result = await estimateTrip(waterfront, ubc, findType('gas-car'), fixedRouting, null, transportTypes);
+    expect(result).toMatchObject({
+      transportTypeId: 'gas-car',
+      distance: 12.97,
+      distanceSource: 'route',
+      duration: 19,
+      emissions: 2.22,
+      vehicleEmissions: 2.22,
+      passengers: 1,
+      roundTrip: false
+    });
+    expect(result.routeGeometry).toHaveLength(2);
+  });
+
+  it('falls back to the straight line without a route', async () => {
+    const result = await estimateTrip(waterfront, ubc, findType('cycling'), noRouting, null, transportTypes);
+    expect(result).toMatchObject({ distance: 9.98, distanceSource: 'straight-line', emissions: 0, duration: 40 });
+  });
+
+  it('flies the great circle without asking for a route', async () => {
+    let asked = false;
+    const routing: RoutingProvider = { name: 'Spy', getRoute: async () => { asked = true; return null; } };
+    const result = await estimateTrip(waterfront, ubc, findType('flight'), routing, null, transportTypes);
+    expect(asked).toBe(false);
+    expect(result).toMatchObject({ distance: 9.98, distanceSource: 'great-circle', emissions: 2.72 });
+  });
+
+  it('doubles round trips and splits the car between passengers', async () => {
+    const options = { ...defaultTripOptions, passengers: 2, roundTrip: true };
+    const types = applyTripOptions(transportTypes, options);
+    const result = await estimateTrip(waterfront, ubc, findType('gas-car', types), fixedRouting, null, types, options);
+    expect(result).toMatchObject({ distance: 25.94, duration: 39, emissions: 2.22, vehicleEmissions: 4.43, passengers: 2, roundTrip: true });
+  });
+
+  it('sums a transit itinerary leg by leg with the catalogue factors', async () => {
+    const result = await estimateTrip(waterfront, ubc, findType('bus'), noRouting, itinerary, transportTypes);
+    expect(result.distanceSource).toBe('route');
+    expect(result.distance).toBe(12.73);
+    expect(result.legs?.map(leg => leg.emissionFactor)).toEqual([0, 1.3, 102, 0]);
+    expect(result.emissions).toBe(0.99);
+    expect(result.vehicleEmissions).toBeUndefined();
+  });
+
+  it('scales transit legs for a quiet service', async () => {
+    const options: TripOptions = { ...defaultTripOptions, transitLoad: 'quiet' };
+    const types = applyTripOptions(transportTypes, options);
+    const result = await estimateTrip(waterfront, ubc, findType('bus', types), noRouting, itinerary, types, options);
+    expect(result.legs?.map(leg => leg.emissionFactor)).toEqual([0, 2.6, 204, 0]);
+    expect(result.emissions).toBe(1.97);
+  });
+});
+
+describe('estimateItinerary', () => {
+  it('combines the segments between stops', async () => {
+    const result = await estimateItinerary(
+      [waterfront, kitsilano, ubc],
+      [findType('cycling'), findType('gas-car')],
+      noRouting,
+      [null, null],
+      transportTypes
+    );
+    expect(result.segments).toHaveLength(2);
+    expect(result.segments?.map(segment => segment.transportTypeId)).toEqual(['cycling', 'gas-car']);
+    expect(result.distance).toBeCloseTo(result.segments!.reduce((sum, segment) => sum + segment.distance, 0), 2);
+    expect(result.emissions).toBeCloseTo(result.segments![1].emissions, 2);
+  });
+});
+
+describe('compareTransportTypes', () => {
+  it('estimates every transport type and finds the lowest', async () => {
+    const comparisons = await compareTransportTypes([waterfront, ubc], transportTypes, fixedRouting, [itinerary]);
+    expect(comparisons.map(row => row.transportTypeId)).toEqual(transportTypes.map(type => type.id));
+    const car = comparisons.find(row => row.transportTypeId === 'gas-car');
+    expect(car).toMatchObject({ distance: 12.97, emissions: 2.22, distanceSource: 'route' });
+    expect(getLowestEmission(comparisons)?.emissions).toBe(0);
+    expect(getLowestEmission([])).toBeNull();
+  });
+});
+
+describe('createCalculator', () => {
+  it('calculates a trip with the region and options', async () => {
+    const calculator = createCalculator({ regionId: 'greater-london', tripOptions: { roundTrip: true } });
+    const result = await calculator.calculate({ stops: [waterfront, ubc], mode: 'bus' });
+    expect(result).toMatchObject({ distance: 19.95, distanceSource: 'straight-line', emissions: 1.58, roundTrip: true });
+  });
+
+  it('plans transit legs with the itinerary lookup', async () => {
+    const calculator = createCalculator({ getTransitItinerary: async () => itinerary });
+    const result = await calculator.calculate({ stops: [waterfront, ubc], mode: 'bus' });
+    expect(result.legs).toHaveLength(4);
+    expect(result.emissions).toBe(0.99);
+  });
+
+  it('rejects configuration it cannot use', () => {
+    expect(() => createCalculator({ regionId: 'atlantis' })).toThrow('Unknown region "atlantis"');
+    expect(() => createCalculator({ factorSettings: { version: '1999.1' } })).toThrow('Unknown factor set "1999.1"');
+    expect(() => createCalculator({ tripOptions: { passengers: 0 } })).toThrow('Passengers must be a whole number');
+    expect(() => createCalculator({ tripOptions: { transitLoad: 'packed' as never } })).toThrow('Unknown transit load "packed"');
+  });
+
+  it('rejects unknown modes and trips without an end', async () => {
+    const calculator = createCalculator();
+    await expect(calculator.calculate({ stops: [waterfront, ubc], mode: 'rocket' })).rejects.toThrow('Unknown mode "rocket"');
+    await expect(calculator.calculate({ stops: [waterfront], mode: 'bus' })).rejects.toThrow('at least a start and an end');
+  });
+});
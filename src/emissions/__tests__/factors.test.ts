@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTripOptions,
+  buildTransportTypes,
+  defaultFactorSettings,
+  defaultTripOptions,
+  getOneWay,
+  getRegion,
+  haversineDistance,
+  type EmissionResult,
+  type TransportType
+} from '..';
+
+const findType = (types: TransportType[], id: string): TransportType => {
+  const type = types.find(candidate => candidate.id === id);
+  if (!type) throw new Error(`No transport type ${id}`);
+  return type;
+};
+
+describe('haversineDistance', () => {
+  it('is zero between a point and itself', () => {
+    expect(haversineDistance(49.2827, -123.1207, 49.2827, -123.1207)).toBe(0);
+  });
+
+  it('measures the great circle in kilometres', () => {
+    // Waterfront Station to UBC
+    expect(haversineDistance(49.2857, -123.1115, 49.267, -123.246)).toBeCloseTo(9.98, 2);
+    // London to Paris
+    expect(haversineDistance(51.5074, -0.1278, 48.8566, 2.3522)).toBeCloseTo(343.5, 0);
+  });
+
+  it('is symmetric', () => {
+    expect(haversineDistance(51.5074, -0.1278, 48.8566, 2.3522))
+      .toBeCloseTo(haversineDistance(48.8566, 2.3522, 51.5074, -0.1278), 10);
+  });
+});
+
+describe('buildTransportTypes', () => {
+  const types = buildTransportTypes(defaultFactorSettings);
+
+  it('resolves per-passenger factors from the catalogue', () => {
+    expect(findType(types, 'gas-car').emissionFactor).toBe(170.9);
+    expect(findType(types, 'bus').emissionFactor).toBe(102);
+    expect(findType(types, 'walking').emissionFactor).toBe(0);
+    expect(findType(types, 'flight').routingProfile).toBeNull();
+  });
+
+  it('keeps the whole-vehicle factor for vehicle-basis modes only', () => {
+    expect(findType(types, 'gas-car')).toMatchObject({ vehicleEmissionFactor: 170.9, occupancy: 1 });
+    expect(findType(types, 'bus').vehicleEmissionFactor).toBeUndefined();
+  });
+
+  it('applies region overrides', () => {
+    const london = buildTransportTypes(defaultFactorSettings, getRegion('greater-london').modes);
+    expect(findType(london, 'bus').emissionFactor).toBe(79);
+    expect(findType(london, 'bus').fare).toBe(1.75);
+  });
+
+  it('splits vehicle profiles between their passengers', () => {
+    const custom = findType(buildTransportTypes({
+      ...defaultFactorSettings,
+      gridIntensity: 500,
+      vehicleProfiles: [{ id: 'van', name: 'Van', fuel: 'electric', consumption: 20, passengers: 2 }]
+    }), 'custom-van');
+    expect(custom).toMatchObject({ emissionFactor: 50, vehicleEmissionFactor: 100, occupancy: 2, routingProfile: 'driving' });
+  });
+});
+
+describe('applyTripOptions', () => {
+  const types = buildTransportTypes(defaultFactorSettings);
+
+  it('leaves factors alone with the default options', () => {
+    expect(applyTripOptions(types, defaultTripOptions)).toEqual(types);
+  });
+
+  it('splits car factors between the passengers', () => {
+    const shared = applyTripOptions(types, { ...defaultTripOptions, passengers: 2 });
+    expect(findType(shared, 'gas-car')).toMatchObject({ emissionFactor: 85.5, vehicleEmissionFactor: 170.9, occupancy: 2 });
+    expect(findType(shared, 'bus').emissionFactor).toBe(102);
+  });
+
+  it('scales transit factors for the load', () => {
+    expect(findType(applyTripOptions(types, { ...defaultTripOptions, transitLoad: 'busy' }), 'bus').emissionFactor).toBe(51);
+    expect(findType(applyTripOptions(types, { ...defaultTripOptions, transitLoad: 'quiet' }), 'bus').emissionFactor).toBe(204);
+    expect(findType(applyTripOptions(types, { ...defaultTripOptions, transitLoad: 'quiet' }), 'gas-car').emissionFactor).toBe(170.9);
+  });
+});
+
+describe('getOneWay', () => {
+  const result: EmissionResult = {
+    transportType: 'Gas Car',
+    transportTypeId: 'gas-car',
+    distance: 20,
+    emissions: 3.42,
+    distanceSource: 'route'
+  };
+
+  it('halves round trips', () => {
+    expect(getOneWay({ ...result, roundTrip: true })).toEqual({ distance: 10, emissions: 1.71 });
+  });
+
+  it('returns one-way trips as they are', () => {
+    expect(getOneWay(result)).toEqual({ distance: 20, emissions: 3.42 });
+  });
+});
@@ -0,0 +1,104 @@
+import type { EmissionResult, Location } from '../types';
+import { parseCsv, toCsv, type CsvValue } from '../utils/csv';
+import { createCalculator, type CalculatorConfig } from './calculator';
+
+// One trip of a batch file. `from` and `to` are "lat,lng" or, with a geocoder, an address.
+export interface BatchTrip {
+  line: number; // row in the file, counting the header as 1
+  id: string;
+  from: string;
+  to: string;
+  mode: string;
+  passengers?: number;
+  roundTrip?: boolean;
+}
+
+export interface BatchRow {
+  trip: BatchTrip;
+  result: EmissionResult | null;
+  error?: string;
+}
+
+const REQUIRED_COLUMNS = ['from', 'to'];
+const TRUE_VALUES = ['1', 'true', 'yes', 'y'];
+
+// Trips from a CSV with the columns from, to and optionally id, mode, passengers and round_trip.
+// Rows without a mode use defaultMode. Throws when a required column is missing.
+export const parseBatchCsv = (text: string, defaultMode = 'gas-car'): BatchTrip[] => {
+  const records = parseCsv(text);
+  const columns = records.length > 0 ? Object.keys(records[0]) : [];
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (records.length > 0 && missing.length > 0) {
+    throw new Error(`Trips CSV is missing the column${missing.length === 1 ? '' : 's'} ${missing.join(', ')}`);
+  }
+
+  return records.map((record, index) => {
+    const passengers = record.passengers ? Number(record.passengers) : undefined;
+    return {
+      line: index + 2,
+      id: record.id || String(index + 1),
+      from: record.from,
+      to: record.to,
+      mode: record.mode || defaultMode,
+      passengers: passengers !== undefined && Number.isFinite(passengers) ? passengers : undefined,
+      roundTrip: record.round_trip ? TRUE_VALUES.includes(record.round_trip.toLowerCase()) : undefined
+    };
+  });
+};
+
+// Calculate every trip in turn (one at a time, to go easy on the routing service). A trip that fails gets
+// an error instead of a result; the rest of the batch carries on.
+export const runBatch = async (
+  trips: BatchTrip[],
+  config: CalculatorConfig,
+  resolveLocation: (text: string) => Promise<Location | null>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchRow[]> => {
+  const rows: BatchRow[] = [];
+  for (const trip of trips) {
+    try {
+      const calculator = createCalculator({
+        ...config,
+        tripOptions: {
+          ...config.tripOptions,
+          ...(trip.passengers !== undefined ? { passengers: trip.passengers } : {}),
+          ...(trip.roundTrip !== undefined ? { roundTrip: trip.roundTrip } : {})
+        }
+      });
+      const [from, to] = await Promise.all([resolveLocation(trip.from), resolveLocation(trip.to)]);
+      if (!from || !to) {
+        throw new Error(`Could not find location: ${!from ? trip.from : trip.to}`);
+      }
+      rows.push({ trip, result: await calculator.calculate({ stops: [from, to], mode: trip.mode }) });
+    } catch (error) {
+      rows.push({ trip, result: null, error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.(rows.length, trips.length);
+  }
+  return rows;
+};
+
+// One row per trip with its per-person and whole-vehicle emissions, or the reason it failed
+export const batchToCsv = (rows: BatchRow[]): string => {
+  const table: CsvValue[][] = [[
+    'id', 'from', 'to', 'mode', 'passengers', 'round_trip', 'distance_km', 'distance_source', 'duration_min',
+    'emissions_kg_co2', 'vehicle_emissions_kg_co2', 'error'
+  ]];
+  for (const { trip, result, error } of rows) {
+    table.push([
+      trip.id,
+      trip.from,
+      trip.to,
+      trip.mode,
+      result?.passengers,
+      result ? String(Boolean(result.roundTrip)) : undefined,
+      result?.distance,
+      result?.distanceSource,
+      result?.duration,
+      result?.emissions,
+      result?.vehicleEmissions,
+      error
+    ]);
+  }
+  return toCsv(table);
+};
@@ -0,0 +1,98 @@
+import type { EmissionResult, Location, TransitItinerary, TransportType } from '../types';
+import { compareTransportTypes, type ModeComparison } from '../services/comparison';
+import { buildTransportTypes, defaultFactorSettings, factorSets, type FactorSettings } from '../services/emissionFactors';
+import { getRegion, getRegionGrid, regions, type Region } from '../services/regions';
+import type { RoutingProvider } from '../services/routing';
+import { estimateItinerary } from '../services/tripEstimate';
+import { applyTripOptions, defaultTripOptions, transitLoads, type TripOptions } from '../services/tripOptions';
+
+export interface CalculatorConfig {
+  regionId?: string; // home region for local factors, fares and grid intensity; the default region otherwise
+  factorSettings?: Partial<FactorSettings>; // factor set version, grid intensity, vehicle profiles and prices
+  tripOptions?: Partial<TripOptions>;
+  routingProvider?: RoutingProvider; // straight-line distances without one
+  // Transit itinerary between two stops; transit is estimated along the route (or straight line) without one
+  getTransitItinerary?: (origin: Location, destination: Location) => Promise<TransitItinerary | null>;
+}
+
+export interface TripRequest {
+  stops: Location[]; // start, any intermediate stops, end
+  mode: string; // transport type id
+  segmentModes?: string[]; // transport type id per segment, where it differs from mode
+}
+
+export interface Calculator {
+  region: Region;
+  tripOptions: TripOptions;
+  transportTypes: TransportType[]; // per-person factors for the trip options
+  calculate: (trip: TripRequest) => Promise<EmissionResult>;
+  compare: (stops: Location[]) => Promise<ModeComparison[]>;
+}
+
+// Routing that never finds a route, so distances are the straight line (the great circle for flights)
+export const straightLineRouting: RoutingProvider = {
+  name: 'Straight line',
+  getRoute: async () => null
+};
+
+// Everything the browser app computes for a trip, without React, the DOM or browser storage.
+// Throws on configuration the calculation can't use, such as an unknown region, factor set or mode.
+export const createCalculator = (config: CalculatorConfig = {}): Calculator => {
+  if (config.regionId && !regions.some(region => region.id === config.regionId)) {
+    throw new Error(`Unknown region "${config.regionId}"; expected one of ${regions.map(region => region.id).join(', ')}`);
+  }
+  const version = config.factorSettings?.version;
+  if (version && !factorSets.some(set => set.version === version)) {
+    throw new Error(`Unknown factor set "${version}"; expected one of ${factorSets.map(set => set.version).join(', ')}`);
+  }
+  const tripOptions = { ...defaultTripOptions, ...config.tripOptions };
+  if (!transitLoads[tripOptions.transitLoad]) {
+    throw new Error(`Unknown transit load "${tripOptions.transitLoad}"; expected one of ${Object.keys(transitLoads).join(', ')}`);
+  }
+  if (tripOptions.passengers !== null && !(Number.isInteger(tripOptions.passengers) && tripOptions.passengers >= 1)) {
+    throw new Error(`Passengers must be a whole number of at least 1, not ${tripOptions.passengers}`);
+  }
+
+  const region = getRegion(config.regionId ?? '');
+  const factorSettings: FactorSettings = {
+    ...defaultFactorSettings,
+    gridIntensity: getRegionGrid(region).gPerKWh,
+    ...config.factorSettings
+  };
+  const transportTypes = applyTripOptions(buildTransportTypes(factorSettings, region.modes), tripOptions);
+  const routingProvider = config.routingProvider ?? straightLineRouting;
+
+  const getTransportType = (id: string): TransportType => {
+    const transportType = transportTypes.find(type => type.id === id);
+    if (!transportType) {
+      throw new Error(`Unknown mode "${id}"; expected one of ${transportTypes.map(type => type.id).join(', ')}`);
+    }
+    return transportType;
+  };
+
+  const getItineraries = (stops: Location[], segmentTypes: (TransportType | null)[]) => {
+    return Promise.all(stops.slice(1).map((to, index) =>
+      config.getTransitItinerary && (segmentTypes[index] === null || segmentTypes[index]?.routingProfile === 'transit')
+        ? config.getTransitItinerary(stops[index], to)
+        : null
+    ));
+  };
+
+  return {
+    region,
+    tripOptions,
+    transportTypes,
+    calculate: async ({ stops, mode, segmentModes = [] }) => {
+      if (stops.length < 2) throw new Error('A trip needs at least a start and an end');
+      const segmentTypes = stops.slice(1).map((_, index) => getTransportType(segmentModes[index] || mode));
+      const itineraries = await getItineraries(stops, segmentTypes);
+      return estimateItinerary(stops, segmentTypes, routingProvider, itineraries, transportTypes, tripOptions);
+    },
+    compare: async (stops) => {
+      if (stops.length < 2) throw new Error('A trip needs at least a start and an end');
+      // Every mode is compared, so look up transit for every segment
+      const itineraries = await getItineraries(stops, stops.slice(1).map(() => null));
+      return compareTransportTypes(stops, transportTypes, routingProvider, itineraries, tripOptions);
+    }
+  };
+};
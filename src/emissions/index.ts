@@ -0,0 +1,42 @@
+// The trip-emissions core as a library: distances, per-mode factors and emissions, Directions parsing and mode
+// comparison. Nothing here needs React, the DOM or browser storage, so it also runs in Node (see cli/footprint.ts).
+export type {
+  DistanceSource,
+  EmissionResult,
+  LegEmission,
+  LegMode,
+  Location,
+  SegmentResult,
+  TransitInfo,
+  TransitItinerary,
+  TransportType
+} from '../types';
+export { haversineDistance } from '../utils/geo';
+export {
+  buildTransportTypes,
+  defaultFactorSettings,
+  factorSets,
+  getFactorSet,
+  getPassengerFactor,
+  gridIntensityPresets,
+  resolveFactor,
+  type EmissionFactorEntry,
+  type FactorSettings,
+  type VehicleProfile
+} from '../services/emissionFactors';
+export { getRegion, regions, type Region } from '../services/regions';
+export { estimateCost, estimateItinerary, estimateTrip, getModeEmissions } from '../services/tripEstimate';
+export { compareTransportTypes, getLowestEmission, type ModeComparison } from '../services/comparison';
+export { applyTripOptions, defaultTripOptions, getOneWay, transitLoads, type TransitLoad, type TripOptions } from '../services/tripOptions';
+export {
+  applyLegFactors,
+  getLegMode,
+  legModes,
+  parseTransitDirections,
+  sumLegs,
+  type TransitDirectionsResponse
+} from '../services/transit';
+export { decodePolyline, parseDirectionsRoute, type DirectionsResponse, type RouteResult, type RoutingProvider } from '../services/routing';
+export { createCalculator, straightLineRouting, type Calculator, type CalculatorConfig, type TripRequest } from './calculator';
+export { batchToCsv, parseBatchCsv, runBatch, type BatchRow, type BatchTrip } from './batch';
+export { createLocationResolver, parseCoordinates } from './locations';
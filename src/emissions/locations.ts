@@ -0,0 +1,20 @@
+import type { Location } from '../types';
+import type { GeocodeBias, GeocodingProvider } from '../services/geocoding';
+
+// "49.2827,-123.1207" (or with a space after the comma) as a location; null when it isn't a valid coordinate pair
+export const parseCoordinates = (text: string): Location | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng, address: `${lat},${lng}` };
+};
+
+// Resolves coordinates directly and anything else with the geocoder's best match; null when neither works
+export const createLocationResolver = (geocoder?: GeocodingProvider, bias?: GeocodeBias) => async (text: string): Promise<Location | null> => {
+  const coordinates = parseCoordinates(text);
+  if (coordinates || !geocoder) return coordinates;
+  const [result] = await geocoder.search(text, bias);
+  return result ?? null;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Location, SegmentResult } from '../../types';
+import { getRoutePaths, summariseResultByMode } from '../exports';
+import { combineSegments } from '../itinerary';
+import type { TripState } from '../tripSharing';
+
+const waterfront: Location = { lat: 49.2857, lng: -123.1115, address: 'Waterfront Station' };
+const kitsilano: Location = { lat: 49.2684, lng: -123.1683, address: 'Kitsilano' };
+const ubc: Location = { lat: 49.267, lng: -123.246, address: 'UBC' };
+
+// Bus (with a walk to the stop) to Kitsilano, then a car to UBC
+const transitSegment: SegmentResult = {
+  from: waterfront,
+  to: kitsilano,
+  transportType: 'Bus',
+  transportTypeId: 'bus',
+  distance: 5,
+  emissions: 0.5,
+  distanceSource: 'route',
+  legs: [
+    { mode: 'walk', label: 'Walk', distance: 0.2, emissionFactor: 0, emissions: 0, geometry: [[49.2857, -123.1115], [49.2855, -123.113]] },
+    { mode: 'bus', label: '4', distance: 4.8, emissionFactor: 102, emissions: 0.5, geometry: [[49.2855, -123.113], [49.2684, -123.1683]] }
+  ]
+};
+const carSegment: SegmentResult = {
+  from: kitsilano,
+  to: ubc,
+  transportType: 'Gas Car',
+  transportTypeId: 'gas-car',
+  distance: 6,
+  emissions: 1.03,
+  distanceSource: 'route',
+  routeGeometry: [[49.2684, -123.1683], [49.267, -123.246]]
+};
+const state: TripState = { start: waterfront, end: ubc, via: [kitsilano], transportTypeId: 'bus', segmentModes: ['bus', 'gas-car'] };
+
+describe('multi-stop exports', () => {
+  const result = combineSegments([transitSegment, carSegment]);
+
+  it('breaks a mixed trip down by transit leg and car segment', () => {
+    expect(summariseResultByMode(result)).toEqual([
+      { mode: 'Gas Car', distance: 6, emissions: 1.03 },
+      { mode: 'Bus', distance: 4.8, emissions: 0.5 },
+      { mode: 'Walk', distance: 0.2, emissions: 0 }
+    ]);
+  });
+
+  it('draws the transit legs and the car segment', () => {
+    expect(getRoutePaths(result, state).map(path => [path.label, path.mode, path.geometrySource])).toEqual([
+      ['Walk', 'Walk', 'route'],
+      ['4', 'Bus', 'route'],
+      ['Segment 2', 'Gas Car', 'route']
+    ]);
+  });
+
+  it('doubles legs but not segments for a round trip', () => {
+    const roundTrip = combineSegments([
+      { ...transitSegment, distance: 10, emissions: 1, roundTrip: true },
+      { ...carSegment, distance: 12, emissions: 2.06, roundTrip: true }
+    ]);
+    expect(summariseResultByMode(roundTrip)).toEqual([
+      { mode: 'Gas Car', distance: 12, emissions: 2.06 },
+      { mode: 'Bus', distance: 9.6, emissions: 1 },
+      { mode: 'Walk', distance: 0.4, emissions: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,9 @@
+// Base URL of the API server that holds the third-party keys.
+// Empty means same origin: in development the Vite dev server proxies /api to it.
+// (import.meta.env is only defined under Vite, so this module also loads in plain Node.)
+const API_URL = (import.meta.env?.VITE_API_URL || '').replace(/\/$/, '');
+
+// `base` overrides the configured server, e.g. for the command-line tool
+export const apiUrl = (path: string, params?: Record<string, string>, base = API_URL): string => {
+  return `${base.replace(/\/$/, '')}${path}${params ? `?${new URLSearchParams(params)}` : ''}`;
+};
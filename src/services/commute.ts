@@ -0,0 +1,60 @@
+import type { CommuteSchedule, EmissionResult, TransportType } from '../types';
+import type { ModeComparison } from './comparison';
+import { getOneWay } from './tripOptions';
+
+export interface CommuteProjection {
+  tripsPerWeek: number;
+  weekly: number; // kg CO2
+  monthly: number;
+  annual: number;
+}
+
+export interface CommuteSaving {
+  transportTypeId: string;
+  name: string;
+  annual: number; // kg CO2 of the commute with this mode
+  annualSavings: number; // kg CO2 saved per year compared with the current mode (negative when worse)
+}
+
+export const defaultCommuteSchedule: CommuteSchedule = {
+  daysPerWeek: 5,
+  workFromHomeDays: 0,
+  roundTrip: true,
+  weeksPerYear: 46
+};
+
+// One-way trips per week once work-from-home days are taken out
+export const getTripsPerWeek = (schedule: CommuteSchedule): number => {
+  const commuteDays = Math.max(schedule.daysPerWeek - schedule.workFromHomeDays, 0);
+  return commuteDays * (schedule.roundTrip ? 2 : 1);
+};
+
+export const projectCommute = (emissionsPerTrip: number, schedule: CommuteSchedule): CommuteProjection => {
+  const tripsPerWeek = getTripsPerWeek(schedule);
+  const weekly = emissionsPerTrip * tripsPerWeek;
+  const annual = weekly * schedule.weeksPerYear;
+  return { tripsPerWeek, weekly, monthly: annual / 12, annual };
+};
+
+// Annual savings from switching the commute to each other transport type, best first.
+// Uses the per-mode comparison for this trip when there is one, otherwise the result distance with each mode's factor.
+// Round-trip results are halved, since the schedule counts one-way trips.
+export const getCommuteSavings = (
+  result: EmissionResult,
+  transportTypes: TransportType[],
+  schedule: CommuteSchedule,
+  comparisons: ModeComparison[] | null
+): CommuteSaving[] => {
+  const trips = result.roundTrip ? 2 : 1;
+  const oneWay = getOneWay(result);
+  const current = projectCommute(oneWay.emissions, schedule).annual;
+  return transportTypes
+    .filter(type => type.id !== result.transportTypeId)
+    .map(type => {
+      const comparison = comparisons?.find(row => row.transportTypeId === type.id);
+      const emissionsPerTrip = comparison ? comparison.emissions / trips : (oneWay.distance * type.emissionFactor) / 1000;
+      const annual = projectCommute(emissionsPerTrip, schedule).annual;
+      return { transportTypeId: type.id, name: type.name, annual, annualSavings: current - annual };
+    })
+    .sort((a, b) => b.annualSavings - a.annualSavings);
+};
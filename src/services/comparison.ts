@@ -0,0 +1,63 @@
+import type { DistanceSource, EmissionResult, Location, TransitItinerary, TransportType } from '../types';
+import type { RoutingProvider } from './routing';
+import { estimateCost, estimateTrip } from './tripEstimate';
+import { defaultTripOptions, type TripOptions } from './tripOptions';
+
+export interface ModeComparison {
+  transportTypeId: string;
+  name: string;
+  distance: number; // km
+  distanceSource: DistanceSource;
+  emissions: number; // kg CO2 per person
+  duration: number; // minutes
+  cost: number; // dollars
+}
+
+// Estimate the same trip with every transport type in one pass.
+// `stops` is the ordered itinerary; itineraries[i] is the transit itinerary for the segment from stops[i] to stops[i + 1].
+export const compareTransportTypes = async (
+  stops: Location[],
+  transportTypes: TransportType[],
+  routingProvider: RoutingProvider,
+  itineraries: (TransitItinerary | null)[],
+  options: TripOptions = defaultTripOptions
+): Promise<ModeComparison[]> => {
+  return Promise.all(
+    transportTypes.map(async (transportType) => {
+      const estimates = await Promise.all(
+        stops.slice(1).map((to, index) =>
+          estimateTrip(stops[index], to, transportType, routingProvider, itineraries[index] ?? null, transportTypes, options)
+        )
+      );
+      const distance = estimates.reduce((sum, estimate) => sum + estimate.distance, 0);
+      const cost = estimates.reduce((sum, estimate) => sum + estimateCost(transportType, estimate.distance, options.roundTrip ? 2 : 1), 0);
+      return {
+        transportTypeId: transportType.id,
+        name: transportType.name,
+        distance: parseFloat(distance.toFixed(2)),
+        distanceSource: estimates.some(estimate => estimate.distanceSource === 'straight-line')
+          ? 'straight-line'
+          : estimates[0].distanceSource,
+        emissions: parseFloat(estimates.reduce((sum, estimate) => sum + estimate.emissions, 0).toFixed(2)),
+        duration: estimates.reduce((sum, estimate) => sum + (estimate.duration ?? 0), 0),
+        cost: parseFloat(cost.toFixed(2))
+      };
+    })
+  );
+};
+
+// Distance and emissions of a calculated trip if it were made with another transport type:
+// the comparison row when one has been run, otherwise the trip's distance at that type's factor
+export const estimateAlternative = (result: EmissionResult, transportType: TransportType, comparisons?: ModeComparison[] | null) => {
+  const comparison = comparisons?.find(row => row.transportTypeId === transportType.id);
+  const distance = comparison?.distance ?? result.distance;
+  return { distance, emissions: comparison?.emissions ?? (distance * transportType.emissionFactor) / 1000 };
+};
+
+// The comparison row with the lowest emissions
+export const getLowestEmission = (comparisons: ModeComparison[]): ModeComparison | null => {
+  return comparisons.reduce<ModeComparison | null>(
+    (lowest, comparison) => (!lowest || comparison.emissions < lowest.emissions ? comparison : lowest),
+    null
+  );
+};
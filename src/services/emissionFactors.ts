@@ -0,0 +1,159 @@
+import catalogue from '../data/emission-factors.json';
+import type { RoutingProfile, TransportType } from '../types';
+
+export type FuelType = 'gasoline' | 'diesel' | 'electric';
+
+// How a factor is expressed: a fixed value, burned fuel, or electricity drawn from the grid
+export type FactorDefinition =
+  | { gPerKm: number }
+  | { fuel: 'gasoline' | 'diesel'; litresPer100km: number }
+  | { fuel: 'electric'; kWhPer100km: number };
+
+export interface EmissionFactorEntry {
+  id: string;
+  name: string;
+  icon: string;
+  routingProfile: RoutingProfile | null;
+  basis: 'vehicle' | 'passenger'; // whether the factor covers the whole vehicle or one passenger
+  occupancy?: number; // passengers sharing a vehicle-basis factor
+  factor: FactorDefinition;
+  averageSpeed: number;
+  costPerKm: number;
+  fare?: number;
+  source: string;
+  year: number;
+}
+
+export interface EmissionFactorSet {
+  version: string;
+  name: string;
+  modes: EmissionFactorEntry[];
+}
+
+export interface GridIntensityPreset {
+  id: string;
+  name: string;
+  gPerKWh: number;
+  source: string;
+  year: number;
+}
+
+// A user-defined vehicle, converted to a per-passenger factor
+export interface VehicleProfile {
+  id: string;
+  name: string;
+  fuel: FuelType;
+  consumption: number; // L/100km for gasoline and diesel, kWh/100km for electric
+  passengers: number;
+}
+
+// The user's own prices for a transport type, replacing the catalogue's
+export interface TransportPrice {
+  costPerKm?: number; // per km, in the home region's currency
+  fare?: number; // per trip, for modes with a flat fare
+}
+
+// A home region's changes to a catalogue entry, such as a local name, fare or measured factor
+export type ModeOverride = Partial<Pick<EmissionFactorEntry, 'name' | 'factor' | 'costPerKm' | 'fare' | 'source' | 'year'>>;
+
+export interface FactorSettings {
+  version: string;
+  gridIntensity: number; // g CO2 per kWh
+  vehicleProfiles: VehicleProfile[];
+  prices: Record<string, TransportPrice>; // by transport type id
+}
+
+const SETTINGS_KEY = 'footprint.factorSettings';
+
+export const fuels: Record<'gasoline' | 'diesel', { gPerLitre: number; source: string; year: number }> = catalogue.fuels;
+export const gridIntensityPresets: GridIntensityPreset[] = catalogue.gridIntensityPresets;
+export const factorSets = catalogue.sets as EmissionFactorSet[];
+
+export const defaultFactorSettings: FactorSettings = {
+  version: factorSets[0].version,
+  gridIntensity: gridIntensityPresets[0].gPerKWh,
+  vehicleProfiles: [],
+  prices: {}
+};
+
+export const getFactorSet = (version: string): EmissionFactorSet => {
+  return factorSets.find(set => set.version === version) || factorSets[0];
+};
+
+// Grams of CO2 per km for a factor definition, given the grid intensity for electric energy
+export const resolveFactor = (factor: FactorDefinition, gridIntensity: number): number => {
+  if ('gPerKm' in factor) {
+    return factor.gPerKm;
+  }
+  if (factor.fuel === 'electric') {
+    return (factor.kWhPer100km / 100) * gridIntensity;
+  }
+  return (factor.litresPer100km / 100) * fuels[factor.fuel].gPerLitre;
+};
+
+// Per-passenger grams of CO2 per km for a catalogue entry
+export const getPassengerFactor = (entry: EmissionFactorEntry, gridIntensity: number): number => {
+  const factor = resolveFactor(entry.factor, gridIntensity);
+  return entry.basis === 'vehicle' ? factor / Math.max(entry.occupancy ?? 1, 1) : factor;
+};
+
+export const vehicleProfileToEntry = (profile: VehicleProfile): EmissionFactorEntry => ({
+  id: `custom-${profile.id}`,
+  name: profile.name,
+  icon: profile.fuel === 'electric' ? 'electric' : 'car',
+  routingProfile: 'driving',
+  basis: 'vehicle',
+  occupancy: profile.passengers,
+  factor: profile.fuel === 'electric'
+    ? { fuel: 'electric', kWhPer100km: profile.consumption }
+    : { fuel: profile.fuel, litresPer100km: profile.consumption },
+  averageSpeed: 35,
+  costPerKm: 0,
+  source: `Custom vehicle profile (${profile.consumption} ${profile.fuel === 'electric' ? 'kWh' : 'L'}/100 km, ${profile.passengers} passenger${profile.passengers === 1 ? '' : 's'})`,
+  year: new Date().getFullYear()
+});
+
+// Transport types for the active factor set plus the user's vehicle profiles, with the home region's
+// overrides applied first and the user's own prices on top
+export const buildTransportTypes = (settings: FactorSettings, overrides: Record<string, ModeOverride> = {}): TransportType[] => {
+  const entries = [...getFactorSet(settings.version).modes, ...settings.vehicleProfiles.map(vehicleProfileToEntry)];
+  return entries.map(catalogueEntry => {
+    const entry = { ...catalogueEntry, ...overrides[catalogueEntry.id] };
+    const price = settings.prices[entry.id];
+    // Vehicle-basis factors are kept whole as well, so trips can split them between the people in the vehicle
+    const vehicleFactor = entry.basis === 'vehicle'
+      ? { vehicleEmissionFactor: Math.round(resolveFactor(entry.factor, settings.gridIntensity) * 10) / 10, occupancy: Math.max(entry.occupancy ?? 1, 1) }
+      : {};
+    return {
+      id: entry.id,
+      name: entry.name,
+      emissionFactor: Math.round(getPassengerFactor(entry, settings.gridIntensity) * 10) / 10,
+      ...vehicleFactor,
+      routingProfile: entry.routingProfile,
+      averageSpeed: entry.averageSpeed,
+      costPerKm: price?.costPerKm ?? entry.costPerKm,
+      fare: catalogueEntry.fare !== undefined ? price?.fare ?? entry.fare : undefined,
+      source: entry.source,
+      year: entry.year,
+      icon: entry.icon
+    };
+  });
+};
+
+export const loadFactorSettings = (defaults: FactorSettings = defaultFactorSettings): FactorSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch (error) {
+    console.error("Error loading emission factor settings:", error);
+    return defaults;
+  }
+};
+
+export const saveFactorSettings = (settings: FactorSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving emission factor settings:", error);
+  }
+};
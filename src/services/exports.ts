@@ -0,0 +1,260 @@
+import type { EmissionResult, LatLngTuple, Location, SavedTrip, TransportType } from '../types';
+import { getFactorSet, type FactorSettings } from './emissionFactors';
+import { legModes } from './transit';
+import { toTripJson, type TripState } from './tripSharing';
+import { toCsv, type CsvValue } from '../utils/csv';
+
+// The emission factor behind exported numbers, with its source for reporting
+export interface FactorRecord {
+  transportTypeId: string;
+  name: string;
+  gPerKm: number;
+  source: string;
+  year: number;
+}
+
+export interface ModeBreakdown {
+  mode: string;
+  distance: number; // km
+  emissions: number; // kg CO2
+}
+
+// A drawable part of a trip, for the GIS exports and the report map
+export interface RoutePath {
+  label: string;
+  mode: string;
+  coordinates: LatLngTuple[];
+  geometrySource: 'route' | 'straight-line'; // straight lines join the stops when no routed geometry is available
+}
+
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const describeFactor = (type: TransportType): FactorRecord => ({
+  transportTypeId: type.id,
+  name: type.name,
+  gPerKm: type.emissionFactor,
+  source: type.source,
+  year: type.year
+});
+
+const describeFactorSet = (settings: FactorSettings) => ({
+  version: settings.version,
+  name: getFactorSet(settings.version).name,
+  gridIntensity: settings.gridIntensity // g CO2 per kWh
+});
+
+// Catalogue types behind a result: the chosen mode, each segment's mode and the modes transit legs are priced with
+export const getUsedTransportTypes = (result: EmissionResult, transportTypes: TransportType[]): TransportType[] => {
+  const ids = new Set([
+    result.transportTypeId,
+    ...(result.segments ?? []).map(segment => segment.transportTypeId),
+    ...(result.legs ?? []).map(leg => legModes[leg.mode].transportTypeId)
+  ]);
+  return transportTypes.filter(type => ids.has(type.id));
+};
+
+const getStops = (state: TripState): Location[] => {
+  return [...(state.start ? [state.start] : []), ...state.via, ...(state.end ? [state.end] : [])];
+};
+
+// Distance and emissions per mode, counting transit legs by their own mode: per segment for a multi-stop trip
+// (its legs for a transit segment, the segment itself otherwise), otherwise the trip's legs or its single mode
+export const summariseResultByMode = (result: EmissionResult): ModeBreakdown[] => {
+  // Legs describe one way of a round trip
+  const trips = result.roundTrip ? 2 : 1;
+  const partsOf = (part: EmissionResult): ModeBreakdown[] => part.legs && part.legs.length > 0
+    ? part.legs.map(leg => ({ mode: legModes[leg.mode].name, distance: leg.distance * trips, emissions: leg.emissions * trips }))
+    : [{ mode: part.transportType, distance: part.distance, emissions: part.emissions }];
+  const parts = result.segments ? result.segments.flatMap(partsOf) : partsOf(result);
+
+  const totals = new Map<string, ModeBreakdown>();
+  for (const part of parts) {
+    const total = totals.get(part.mode) || { mode: part.mode, distance: 0, emissions: 0 };
+    total.distance += part.distance;
+    total.emissions += part.emissions;
+    totals.set(part.mode, total);
+  }
+  return [...totals.values()].sort((a, b) => b.emissions - a.emissions);
+};
+
+// Paths of the transit legs of a trip or segment that have drawn geometry
+const getLegPaths = (result: EmissionResult): RoutePath[] => {
+  const legs = result.legs?.filter(leg => leg.geometry && leg.geometry.length > 1) ?? [];
+  return legs.map(leg => ({ label: leg.label, mode: legModes[leg.mode].name, coordinates: leg.geometry!, geometrySource: 'route' }));
+};
+
+// Paths segment by segment for a multi-stop trip (transit segments as their legs), otherwise the legs or the route
+export const getRoutePaths = (result: EmissionResult, state: TripState): RoutePath[] => {
+  if (result.segments) {
+    return result.segments.flatMap((segment, index): RoutePath[] => {
+      const legPaths = getLegPaths(segment);
+      return legPaths.length > 0 ? legPaths : [{
+        label: `Segment ${index + 1}`,
+        mode: segment.transportType,
+        coordinates: segment.routeGeometry ?? [[segment.from.lat, segment.from.lng], [segment.to.lat, segment.to.lng]],
+        geometrySource: segment.routeGeometry ? 'route' : 'straight-line'
+      }];
+    });
+  }
+
+  const legPaths = getLegPaths(result);
+  if (legPaths.length > 0) return legPaths;
+
+  return [{
+    label: 'Route',
+    mode: result.transportType,
+    coordinates: result.routeGeometry ?? getStops(state).map(stop => [stop.lat, stop.lng] as LatLngTuple),
+    geometrySource: result.routeGeometry ? 'route' : 'straight-line'
+  }];
+};
+
+// One row for the trip, then one per segment and per transit leg
+export const resultToCsv = (result: EmissionResult, state: TripState, transportTypes: TransportType[]): string => {
+  const typeOf = (id?: string) => transportTypes.find(type => type.id === id);
+  const chosen = typeOf(result.transportTypeId);
+  const rows: CsvValue[][] = [
+    ['row', 'from', 'to', 'mode', 'distance_km', 'emissions_kg_co2', 'factor_g_per_km', 'factor_source', 'factor_year'],
+    ['trip', state.start?.address, state.end?.address, result.transportType, result.distance, result.emissions, chosen?.emissionFactor, chosen?.source, chosen?.year]
+  ];
+
+  for (const segment of result.segments ?? []) {
+    const type = typeOf(segment.transportTypeId);
+    rows.push(['segment', segment.from.address, segment.to.address, segment.transportType, segment.distance, segment.emissions, type?.emissionFactor, type?.source, type?.year]);
+  }
+  for (const leg of result.legs ?? []) {
+    const type = typeOf(legModes[leg.mode].transportTypeId);
+    rows.push(['leg', '', '', `${legModes[leg.mode].name} (${leg.label})`, leg.distance.toFixed(2), leg.emissions.toFixed(3), leg.emissionFactor, type?.source, type?.year]);
+  }
+  return toCsv(rows);
+};
+
+// One row per saved trip. The factor is the one the trip was priced with (its emissions over its distance);
+// the source is the current catalogue entry for the trip's mode.
+export const tripsToCsv = (trips: SavedTrip[], transportTypes: TransportType[]): string => {
+  const rows: CsvValue[][] = [
+    ['date', 'start', 'via', 'end', 'mode', 'distance_km', 'emissions_kg_co2', 'factor_g_per_km', 'factor_source', 'factor_year', 'tag']
+  ];
+  for (const trip of [...trips].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    const type = transportTypes.find(candidate => candidate.id === trip.transportTypeId);
+    rows.push([
+      trip.timestamp,
+      trip.start.address,
+      trip.via?.map(stop => stop.address).join(' | '),
+      trip.end.address,
+      trip.transportType,
+      trip.distance,
+      trip.emissions,
+      trip.distance > 0 ? Math.round((trip.emissions / trip.distance) * 10000) / 10 : undefined,
+      type?.source,
+      type?.year,
+      trip.tag
+    ]);
+  }
+  return toCsv(rows);
+};
+
+// The importable trip document plus the full breakdown and the factors used
+export const resultToJson = (result: EmissionResult, state: TripState, transportTypes: TransportType[], settings: FactorSettings): string => {
+  return JSON.stringify({
+    ...toTripJson(state, result),
+    exportedAt: new Date().toISOString(),
+    duration: result.duration,
+    roundTrip: result.roundTrip,
+    passengers: result.passengers,
+    vehicleEmissions: result.vehicleEmissions,
+    segments: result.segments?.map(({ from, to, transportType, transportTypeId, distance, emissions, distanceSource }) => ({
+      from, to, transportType, transportTypeId, distance, emissions, distanceSource
+    })),
+    legs: result.legs?.map(({ mode, label, distance, emissionFactor, emissions }) => ({ mode, label, distance, emissionFactor, emissions })),
+    factorSet: describeFactorSet(settings),
+    factors: getUsedTransportTypes(result, transportTypes).map(describeFactor)
+  }, null, 2);
+};
+
+export const tripsToJson = (trips: SavedTrip[], transportTypes: TransportType[], settings: FactorSettings): string => {
+  const ids = new Set(trips.map(trip => trip.transportTypeId));
+  return JSON.stringify({
+    type: 'footprint-history',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    factorSet: describeFactorSet(settings),
+    factors: transportTypes.filter(type => ids.has(type.id)).map(describeFactor),
+    trips
+  }, null, 2);
+};
+
+const toGeoJsonPosition = ([lat, lng]: LatLngTuple) => [lng, lat];
+
+export const resultToGeoJson = (result: EmissionResult, state: TripState): string => {
+  const stops = getStops(state);
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      ...getRoutePaths(result, state).map(path => ({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: path.coordinates.map(toGeoJsonPosition) },
+        properties: { name: path.label, mode: path.mode, geometrySource: path.geometrySource }
+      })),
+      ...stops.map((stop, index) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [stop.lng, stop.lat] },
+        properties: { name: stop.address, role: index === 0 && state.start ? 'start' : index === stops.length - 1 && state.end ? 'end' : 'via' }
+      }))
+    ],
+    properties: { transportType: result.transportType, distance: result.distance, emissions: result.emissions }
+  }, null, 2);
+};
+
+export const resultToGpx = (result: EmissionResult, state: TripState): string => {
+  const waypoints = getStops(state)
+    .map(stop => `  <wpt lat="${stop.lat}" lon="${stop.lng}"><name>${escapeXml(stop.address)}</name></wpt>`)
+    .join('\n');
+  const tracks = getRoutePaths(result, state)
+    .map(path => [
+      '  <trk>',
+      `    <name>${escapeXml(`${path.label} (${path.mode})`)}</name>`,
+      `    <type>${escapeXml(path.mode)}</type>`,
+      '    <trkseg>',
+      ...path.coordinates.map(([lat, lng]) => `      <trkpt lat="${lat}" lon="${lng}"></trkpt>`),
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n'))
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Footprint Emission Calculator" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${escapeXml(`${result.transportType}: ${result.distance} km, ${result.emissions} kg CO2`)}</name></metadata>
+${waypoints}
+${tracks}
+</gpx>
+`;
+};
+
+// Trips imported from GPS recordings keep their track; other saved trips only keep their stops,
+// so they are drawn as straight lines between them
+export const tripsToGeoJson = (trips: SavedTrip[]): string => {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: trips.map(trip => ({
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: trip.track
+          ? trip.track.map(toGeoJsonPosition)
+          : [trip.start, ...(trip.via ?? []), trip.end].map(stop => [stop.lng, stop.lat])
+      },
+      properties: {
+        date: trip.timestamp,
+        mode: trip.transportType,
+        distance: trip.distance,
+        emissions: trip.emissions,
+        tag: trip.tag,
+        geometrySource: trip.track ? 'gps-track' : 'straight-line'
+      }
+    }))
+  }, null, 2);
+};
@@ -0,0 +1,225 @@
+import type { EmissionResult, TransitInfo, TransportType } from '../types';
+import { apiUrl } from './api';
+import { estimateAlternative, type ModeComparison } from './comparison';
+import { transitLoads, type TripOptions } from './tripOptions';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface FeedbackRequest {
+  messages: ChatMessage[];
+  system?: string;
+  format: 'json' | 'text';
+}
+
+// A chat model that streams its reply. The app talks to the API server's /api/feedback,
+// which picks the actual model (Gemini, an OpenAI-compatible server or a mock).
+export interface FeedbackProvider {
+  name: string;
+  // Calls onToken with each chunk as it arrives and resolves with the full reply
+  streamChat: (request: FeedbackRequest, onToken: (text: string) => void, signal?: AbortSignal) => Promise<string>;
+}
+
+// The structured analysis the model is asked for
+export interface FeedbackAlternative {
+  mode: string;
+  estimatedSavingsKg: number;
+  note: string;
+}
+
+export interface TripFeedback {
+  summary: string;
+  alternatives: FeedbackAlternative[];
+  tips: string[];
+}
+
+// An alternative after checking the model's figure against our own numbers
+export interface GroundedAlternative extends FeedbackAlternative {
+  transportTypeId: string | null;
+  savings: number | null; // kg CO2 by our calculation; null when the mode isn't one we know
+  matchesEstimate: boolean;
+}
+
+export interface GroundedFeedback extends TripFeedback {
+  alternatives: GroundedAlternative[];
+}
+
+export interface FeedbackContext {
+  result: EmissionResult;
+  transit: TransitInfo[] | null;
+  transportTypes: TransportType[];
+  comparisons?: ModeComparison[] | null;
+  tripOptions?: TripOptions;
+}
+
+const MAX_ITEMS = 5;
+// The model's savings figure may be this far from ours (kg, or share of ours) before it is flagged
+const SAVINGS_TOLERANCE_KG = 0.05;
+const SAVINGS_TOLERANCE_SHARE = 0.2;
+
+// Everyday names the model may use for catalogue modes
+const modeSynonyms: Record<string, string> = {
+  walk: 'walking',
+  foot: 'walking',
+  bike: 'cycling',
+  bicycle: 'cycling',
+  'electric bike': 'e-bike',
+  ebike: 'e-bike',
+  transit: 'bus',
+  'public transit': 'bus',
+  train: 'skytrain',
+  car: 'gas-car',
+  'electric car': 'electric-car',
+  ev: 'electric-car',
+  plane: 'flight'
+};
+
+export const FEEDBACK_SYSTEM_PROMPT = `You are a travel emissions advisor for a trip-footprint calculator.
+Use only the figures you are given; never recalculate the trip's distance or emissions.
+Emissions are per person unless a figure says it is for the whole vehicle; savings are per person too.
+When asked for an analysis, reply with a single JSON object and nothing else, in this shape:
+{"summary": string (2-3 sentences), "alternatives": [{"mode": string (one of the listed modes), "estimatedSavingsKg": number, "note": string}], "tips": [string]}
+List at most ${MAX_ITEMS} alternatives that are practical for the distance, and at most ${MAX_ITEMS} short tips. Do not include infrastructure recommendations.
+For follow-up questions, answer in plain text in under 120 words.`;
+
+// The trip as the model sees it, with every figure computed by our code
+export const buildTripContext = ({ result, transit, transportTypes, comparisons, tripOptions }: FeedbackContext): string => {
+  const passengers = result.passengers ?? 1;
+  let context = `Trip: ${result.distance} km ${result.roundTrip ? 'round trip' : 'one way'} by ${result.transportType}, `;
+  context += `${result.emissions.toFixed(2)} kg CO2 per person`;
+  context += result.duration ? `, about ${Math.round(result.duration)} minutes.\n` : '.\n';
+  context += passengers > 1 ? `Travelling together: ${passengers} people.\n` : 'Travelling alone.\n';
+  if (result.vehicleEmissions !== undefined && passengers > 1) {
+    context += `Whole vehicle: ${result.vehicleEmissions.toFixed(2)} kg CO2, shared between the ${passengers} people.\n`;
+  }
+  if (tripOptions && tripOptions.transitLoad !== 'average') {
+    const load = transitLoads[tripOptions.transitLoad];
+    context += `Transit load: ${load.name}, so each passenger's share is ${load.multiplier}x the average.\n`;
+  }
+
+  if (result.segments && result.segments.length > 1) {
+    result.segments.forEach((segment, index) => {
+      context += `Segment ${index + 1}: ${segment.from.address} to ${segment.to.address}, ${segment.distance} km by ${segment.transportType}, ${segment.emissions.toFixed(2)} kg CO2\n`;
+    });
+  } else if (result.legs && transit && transit.length > 0) {
+    for (const step of transit) {
+      context += `Transit leg: ${step.mode} ${step.line_name}, ${step.departure_stop} to ${step.arrival_stop}, ${step.transit_distance.toFixed(2)} km`;
+      context += step.walking_before ? `; walk before ${step.walking_before}` : '';
+      context += step.walking_after ? `; walk after ${step.walking_after}` : '';
+      context += '\n';
+    }
+  }
+
+  context += '\nThe same trip with other modes (our estimates):\n';
+  for (const type of transportTypes) {
+    if (type.id === result.transportTypeId) continue;
+    const alternative = estimateAlternative(result, type, comparisons);
+    context += `- ${type.name}: ${alternative.distance.toFixed(1)} km, ${alternative.emissions.toFixed(2)} kg CO2 (saves ${(result.emissions - alternative.emissions).toFixed(2)} kg)\n`;
+  }
+  return context;
+};
+
+// The opening request for a structured analysis of a trip
+export const buildAnalysisRequest = (context: FeedbackContext): FeedbackRequest => ({
+  system: FEEDBACK_SYSTEM_PROMPT,
+  format: 'json',
+  messages: [{ role: 'user', content: `${buildTripContext(context)}\nAnalyse this trip as JSON.` }]
+});
+
+// A follow-up question in an existing conversation
+export const buildFollowUpRequest = (thread: ChatMessage[], question: string): FeedbackRequest => ({
+  system: FEEDBACK_SYSTEM_PROMPT,
+  format: 'text',
+  messages: [...thread, { role: 'user', content: question }]
+});
+
+// Check a reply against the TripFeedback schema; null when it doesn't match
+export const parseTripFeedback = (text: string): TripFeedback | null => {
+  try {
+    // Models sometimes wrap JSON in a Markdown code fence
+    const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const data = JSON.parse(json);
+    if (typeof data !== 'object' || data === null || typeof data.summary !== 'string' || !data.summary.trim()) return null;
+    if (!Array.isArray(data.alternatives) || !Array.isArray(data.tips)) return null;
+
+    const alternatives: FeedbackAlternative[] = [];
+    for (const alternative of data.alternatives.slice(0, MAX_ITEMS)) {
+      if (typeof alternative?.mode !== 'string' || typeof alternative.estimatedSavingsKg !== 'number' || !Number.isFinite(alternative.estimatedSavingsKg)) {
+        return null;
+      }
+      alternatives.push({
+        mode: alternative.mode,
+        estimatedSavingsKg: alternative.estimatedSavingsKg,
+        note: typeof alternative.note === 'string' ? alternative.note : ''
+      });
+    }
+    if (!data.tips.every((tip: unknown) => typeof tip === 'string')) return null;
+
+    return { summary: data.summary.trim(), alternatives, tips: data.tips.slice(0, MAX_ITEMS) };
+  } catch {
+    return null;
+  }
+};
+
+const findTransportType = (mode: string, transportTypes: TransportType[]): TransportType | undefined => {
+  const name = mode.trim().toLowerCase();
+  const id = modeSynonyms[name] ?? name;
+  return transportTypes.find(type => type.id === id || type.name.toLowerCase() === name);
+};
+
+// Replace the model's savings figures with ours and flag the ones it got wrong
+export const groundFeedback = (feedback: TripFeedback, { result, transportTypes, comparisons }: FeedbackContext): GroundedFeedback => ({
+  ...feedback,
+  alternatives: feedback.alternatives.map(alternative => {
+    const type = findTransportType(alternative.mode, transportTypes);
+    if (!type) {
+      return { ...alternative, transportTypeId: null, savings: null, matchesEstimate: false };
+    }
+    const savings = parseFloat((result.emissions - estimateAlternative(result, type, comparisons).emissions).toFixed(2));
+    const tolerance = Math.max(SAVINGS_TOLERANCE_KG, Math.abs(savings) * SAVINGS_TOLERANCE_SHARE);
+    return {
+      ...alternative,
+      mode: type.name,
+      transportTypeId: type.id,
+      savings,
+      matchesEstimate: Math.abs(alternative.estimatedSavingsKg - savings) <= tolerance
+    };
+  })
+});
+
+// The summary so far from a JSON reply that is still streaming, for showing progress
+export const extractPartialSummary = (text: string): string => {
+  const match = text.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  return match ? match[1].replace(/\\n/g, ' ').replace(/\\(.)/g, '$1') : '';
+};
+
+// Feedback through the API server, streamed as plain text
+export const createApiFeedbackProvider = (): FeedbackProvider => ({
+  name: 'API server',
+  streamChat: async (request, onToken, signal) => {
+    const response = await fetch(apiUrl('/api/feedback'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal
+    });
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `Feedback request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let reply = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      reply += text;
+      onToken(text);
+    }
+    return reply;
+  }
+});
@@ -0,0 +1,225 @@
+import gazetteer from '../data/gazetteer.json';
+import type { Location } from '../types';
+import { haversineDistance } from '../utils/geo';
+import { apiUrl } from './api';
+
+// Map viewport used to bias searches towards what the user is looking at
+export interface GeocodeBias {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  countryCode?: string; // home region's country, preferred by providers that support it
+}
+
+export interface GeocodingProvider {
+  name: string;
+  search: (query: string, bias?: GeocodeBias | null) => Promise<Location[]>;
+  reverse: (lat: number, lng: number) => Promise<string | null>;
+}
+
+interface GazetteerPlace {
+  name: string;
+  address: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+const MAX_RESULTS = 5;
+// Reverse lookups against the gazetteer only name a point this close to a known place
+const GAZETTEER_REVERSE_RADIUS_KM = 0.5;
+
+const getBiasCenter = (bias: GeocodeBias) => ({ lat: (bias.south + bias.north) / 2, lng: (bias.west + bias.east) / 2 });
+
+// Geocoding through the Google Maps Geocoding API, via the API server (the configured one unless apiBase is given)
+export const createGoogleGeocodingProvider = (apiBase?: string): GeocodingProvider => ({
+  name: 'Google',
+  search: async (query, bias) => {
+    try {
+      const params: Record<string, string> = { address: query };
+      if (bias) params.bounds = `${bias.south},${bias.west}|${bias.north},${bias.east}`;
+      if (bias?.countryCode) params.region = bias.countryCode;
+      const response = await fetch(apiUrl('/api/geocode', params, apiBase));
+      const data = await response.json();
+
+      if (data.status !== "OK") {
+        console.warn("No geocoding results:", data.status);
+        return [];
+      }
+      return data.results.slice(0, MAX_RESULTS).map((result: { formatted_address: string; geometry: { location: { lat: number; lng: number } } }) => ({
+        lat: result.geometry.location.lat,
+        lng: result.geometry.location.lng,
+        address: result.formatted_address
+      }));
+    } catch (error) {
+      console.error("Error fetching coordinates:", error);
+      return [];
+    }
+  },
+  reverse: async (lat, lng) => {
+    try {
+      const response = await fetch(apiUrl('/api/reverse-geocode', { lat: String(lat), lng: String(lng) }, apiBase));
+      const data = await response.json();
+      return data.status === "OK" && data.results.length > 0 ? data.results[0].formatted_address : null;
+    } catch (error) {
+      console.error("Error fetching address:", error);
+      return null;
+    }
+  }
+});
+
+// Geocoding through a Nominatim-compatible service
+export const createNominatimGeocodingProvider = (baseUrl: string): GeocodingProvider => {
+  const url = baseUrl.replace(/\/$/, '');
+  return {
+    name: 'Nominatim',
+    search: async (query, bias) => {
+      try {
+        const viewbox = bias ? `&viewbox=${bias.west},${bias.north},${bias.east},${bias.south}` : '';
+        const response = await fetch(`${url}/search?format=jsonv2&limit=${MAX_RESULTS}&q=${encodeURIComponent(query)}${viewbox}`);
+        const data: { lat: string; lon: string; display_name: string }[] = await response.json();
+        return data.map(place => ({ lat: parseFloat(place.lat), lng: parseFloat(place.lon), address: place.display_name }));
+      } catch (error) {
+        console.error("Error fetching coordinates:", error);
+        return [];
+      }
+    },
+    reverse: async (lat, lng) => {
+      try {
+        const response = await fetch(`${url}/reverse?format=jsonv2&lat=${lat}&lon=${lng}`);
+        const data = await response.json();
+        return data.display_name ?? null;
+      } catch (error) {
+        console.error("Error fetching address:", error);
+        return null;
+      }
+    }
+  };
+};
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: { name?: string; housenumber?: string; street?: string; city?: string; state?: string; country?: string };
+}
+
+const formatPhotonAddress = ({ properties }: PhotonFeature): string => {
+  const street = [properties.housenumber, properties.street].filter(Boolean).join(' ');
+  return [properties.name, street, properties.city, properties.state, properties.country].filter(Boolean).join(', ');
+};
+
+// Geocoding through a Photon-compatible service
+export const createPhotonGeocodingProvider = (baseUrl: string): GeocodingProvider => {
+  const url = baseUrl.replace(/\/$/, '');
+  return {
+    name: 'Photon',
+    search: async (query, bias) => {
+      try {
+        const center = bias ? getBiasCenter(bias) : null;
+        const location = center ? `&lat=${center.lat}&lon=${center.lng}` : '';
+        const response = await fetch(`${url}/api?limit=${MAX_RESULTS}&q=${encodeURIComponent(query)}${location}`);
+        const data: { features: PhotonFeature[] } = await response.json();
+        return data.features.map(feature => ({
+          lat: feature.geometry.coordinates[1],
+          lng: feature.geometry.coordinates[0],
+          address: formatPhotonAddress(feature)
+        }));
+      } catch (error) {
+        console.error("Error fetching coordinates:", error);
+        return [];
+      }
+    },
+    reverse: async (lat, lng) => {
+      try {
+        const response = await fetch(`${url}/reverse?lat=${lat}&lon=${lng}`);
+        const data: { features: PhotonFeature[] } = await response.json();
+        return data.features.length > 0 ? formatPhotonAddress(data.features[0]) : null;
+      } catch (error) {
+        console.error("Error fetching address:", error);
+        return null;
+      }
+    }
+  };
+};
+
+// Geocoding against a local list of places, for tests and offline use
+export const createGazetteerGeocodingProvider = (places: GazetteerPlace[] = gazetteer.places): GeocodingProvider => ({
+  name: 'Local gazetteer',
+  search: async (query, bias) => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const center = bias ? getBiasCenter(bias) : null;
+    return places
+      .filter(place => [place.name, place.address, ...(place.aliases ?? [])].some(text => text.toLowerCase().includes(needle)))
+      .sort((a, b) => (center
+        ? haversineDistance(center.lat, center.lng, a.lat, a.lng) - haversineDistance(center.lat, center.lng, b.lat, b.lng)
+        : a.name.localeCompare(b.name)))
+      .slice(0, MAX_RESULTS)
+      .map(place => ({ lat: place.lat, lng: place.lng, address: `${place.name}, ${place.address}` }));
+  },
+  reverse: async (lat, lng) => {
+    let nearest: GazetteerPlace | null = null;
+    let nearestDistance = Infinity;
+    for (const place of places) {
+      const distance = haversineDistance(lat, lng, place.lat, place.lng);
+      if (distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+    return nearest && nearestDistance <= GAZETTEER_REVERSE_RADIUS_KM ? `${nearest.name}, ${nearest.address}` : null;
+  }
+});
+
+// Remember results so repeated type-ahead queries and reverse lookups don't hit the provider again
+export const withGeocodeCache = (provider: GeocodingProvider): GeocodingProvider => {
+  const searches = new Map<string, Location[]>();
+  const reverses = new Map<string, string | null>();
+
+  return {
+    name: provider.name,
+    search: async (query, bias) => {
+      // Round the viewport so small pans reuse the cached result
+      const key = `${query.trim().toLowerCase()}|${bias ? [bias.south, bias.west, bias.north, bias.east].map(value => value.toFixed(1)).join(',') : ''}`;
+      const cached = searches.get(key);
+      if (cached) return cached;
+      const results = await provider.search(query, bias);
+      if (results.length > 0) searches.set(key, results);
+      return results;
+    },
+    reverse: async (lat, lng) => {
+      const key = `${lat.toFixed(5)},${lng.toFixed(5)}`;
+      if (reverses.has(key)) return reverses.get(key) ?? null;
+      const address = await provider.reverse(lat, lng);
+      if (address) reverses.set(key, address);
+      return address;
+    }
+  };
+};
+
+// Fall back to another provider (normally the local gazetteer) when the primary one has no answer, e.g. offline
+export const withGeocodeFallback = (primary: GeocodingProvider, fallback: GeocodingProvider): GeocodingProvider => ({
+  name: primary.name,
+  search: async (query, bias) => {
+    const results = await primary.search(query, bias);
+    return results.length > 0 ? results : fallback.search(query, bias);
+  },
+  reverse: async (lat, lng) => {
+    return (await primary.reverse(lat, lng)) ?? fallback.reverse(lat, lng);
+  }
+});
+
+// Pick the geocoding provider from the Vite environment (VITE_GEOCODING_PROVIDER / VITE_GEOCODING_URL)
+export const createGeocodingProvider = (): GeocodingProvider => {
+  const offline = createGazetteerGeocodingProvider();
+  switch (import.meta.env.VITE_GEOCODING_PROVIDER) {
+    case 'nominatim':
+      return withGeocodeCache(withGeocodeFallback(createNominatimGeocodingProvider(import.meta.env.VITE_GEOCODING_URL || 'https://nominatim.openstreetmap.org'), offline));
+    case 'photon':
+      return withGeocodeCache(withGeocodeFallback(createPhotonGeocodingProvider(import.meta.env.VITE_GEOCODING_URL || 'https://photon.komoot.io'), offline));
+    case 'gazetteer':
+      return offline;
+    default:
+      return withGeocodeCache(withGeocodeFallback(createGoogleGeocodingProvider(), offline));
+  }
+};
@@ -0,0 +1,372 @@
+import type { EmissionResult, SavedTrip, TransportType } from '../types';
+import { getPeriodStart, summariseByPeriod, type FootprintBudget, type Period } from './tripHistory';
+
+// The parts of a trip that goals look at, so a result can be scored before it is saved
+export type GoalTrip = Pick<SavedTrip, 'transportTypeId' | 'transportType' | 'distance' | 'emissions' | 'timestamp' | 'tag' | 'commute'>;
+
+// Share of trips made by a low-carbon mode; a share of 0 means no goal is set
+export interface LowCarbonGoal {
+  share: number; // percent
+  period: Period;
+}
+
+export interface Badge {
+  id: string;
+  name: string;
+  description: string;
+  progress: number;
+  target: number;
+  earned: boolean;
+}
+
+export interface ChallengeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  days: number;
+  target: number;
+  unit: string;
+  // 'at-least' challenges complete once the target is reached; 'at-most' ones must stay under it until the end
+  direction: 'at-least' | 'at-most';
+  measure: (trips: GoalTrip[], transportTypes: TransportType[]) => number;
+  breaksOn?: (trip: GoalTrip, transportTypes: TransportType[]) => boolean;
+}
+
+export interface JoinedChallenge {
+  challengeId: string;
+  startedAt: string; // ISO date
+}
+
+export type ChallengeStatus = 'active' | 'completed' | 'failed' | 'expired';
+
+export interface ChallengeProgress {
+  challenge: ChallengeDefinition;
+  joined: JoinedChallenge;
+  endsAt: Date;
+  progress: number;
+  status: ChallengeStatus;
+}
+
+export interface GoalImpact {
+  id: string;
+  message: string;
+  tone: 'positive' | 'negative' | 'neutral';
+}
+
+const GOAL_KEY = 'footprint.goals';
+const CHALLENGES_KEY = 'footprint.challenges';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const defaultLowCarbonGoal: LowCarbonGoal = { share: 0, period: 'week' };
+
+// Walking, cycling and public transport; cars, taxis, motorbikes and flights are not
+export const isLowCarbon = (transportTypeId: string, transportTypes: TransportType[]): boolean => {
+  const profile = transportTypes.find(type => type.id === transportTypeId)?.routingProfile;
+  return profile === 'walking' || profile === 'cycling' || profile === 'transit';
+};
+
+const hasProfile = (trip: GoalTrip, transportTypes: TransportType[], profile: TransportType['routingProfile']) => {
+  return transportTypes.find(type => type.id === trip.transportTypeId)?.routingProfile === profile;
+};
+
+const isCommute = (trip: GoalTrip) => Boolean(trip.commute) || trip.tag?.toLowerCase() === 'commute';
+
+const byTime = (trips: GoalTrip[]) => [...trips].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+export const loadLowCarbonGoal = (): LowCarbonGoal => {
+  try {
+    const stored = localStorage.getItem(GOAL_KEY);
+    return stored ? { ...defaultLowCarbonGoal, ...JSON.parse(stored) } : defaultLowCarbonGoal;
+  } catch (error) {
+    console.error("Error loading low-carbon goal:", error);
+    return defaultLowCarbonGoal;
+  }
+};
+
+export const saveLowCarbonGoal = (goal: LowCarbonGoal) => {
+  try {
+    localStorage.setItem(GOAL_KEY, JSON.stringify(goal));
+  } catch (error) {
+    console.error("Error saving low-carbon goal:", error);
+  }
+};
+
+export const loadChallenges = (): JoinedChallenge[] => {
+  try {
+    const stored = localStorage.getItem(CHALLENGES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading challenges:", error);
+    return [];
+  }
+};
+
+export const saveChallenges = (challenges: JoinedChallenge[]) => {
+  try {
+    localStorage.setItem(CHALLENGES_KEY, JSON.stringify(challenges));
+  } catch (error) {
+    console.error("Error saving challenges:", error);
+  }
+};
+
+// Share of the trips in the current week or month made by a low-carbon mode, 0-100
+export const getLowCarbonShare = (trips: GoalTrip[], period: Period, transportTypes: TransportType[], now = new Date()) => {
+  const start = getPeriodStart(now, period);
+  const inPeriod = trips.filter(trip => new Date(trip.timestamp) >= start);
+  const lowCarbon = inPeriod.filter(trip => isLowCarbon(trip.transportTypeId, transportTypes)).length;
+  return { trips: inPeriod.length, lowCarbon, share: inPeriod.length > 0 ? (lowCarbon / inPeriod.length) * 100 : 0 };
+};
+
+// Consecutive low-carbon trips, counting back from the latest
+export const getLowCarbonStreak = (trips: GoalTrip[], transportTypes: TransportType[]): number => {
+  const sorted = byTime(trips);
+  let streak = 0;
+  for (let i = sorted.length - 1; i >= 0 && isLowCarbon(sorted[i].transportTypeId, transportTypes); i--) {
+    streak++;
+  }
+  return streak;
+};
+
+// Consecutive finished weeks under the weekly budget, counting back from last week and not before the first trip
+export const getBudgetStreak = (trips: GoalTrip[], budget: FootprintBudget, now = new Date()): number => {
+  if (trips.length === 0 || budget.weekly <= 0) return 0;
+  const firstWeek = getPeriodStart(new Date(byTime(trips)[0].timestamp), 'week');
+  const weeks = Math.round((getPeriodStart(now, 'week').getTime() - firstWeek.getTime()) / (7 * DAY_MS)) + 1;
+  // Oldest first, the last entry is the current week, which isn't over yet
+  const finished = summariseByPeriod(trips, 'week', weeks, now).slice(0, -1);
+  let streak = 0;
+  for (let i = finished.length - 1; i >= 0 && finished[i].emissions <= budget.weekly; i--) {
+    streak++;
+  }
+  return streak;
+};
+
+// kg CO2 saved compared with making every trip by petrol car
+const getSavingsVsDriving = (trips: GoalTrip[], transportTypes: TransportType[]): number => {
+  const car = transportTypes.find(type => type.id === 'gas-car');
+  if (!car) return 0;
+  return trips.reduce((sum, trip) => sum + Math.max((trip.distance * car.emissionFactor) / 1000 - trip.emissions, 0), 0);
+};
+
+const badgeDefinitions: (Omit<Badge, 'progress' | 'earned'> & {
+  measure: (trips: GoalTrip[], transportTypes: TransportType[], budget: FootprintBudget) => number;
+})[] = [
+  {
+    id: 'first-trip',
+    name: 'First steps',
+    description: 'Log your first trip',
+    target: 1,
+    measure: trips => trips.length
+  },
+  {
+    id: 'car-free-commutes',
+    name: 'Car-free commuter',
+    description: '10 car-free commutes',
+    target: 10,
+    measure: (trips, types) => trips.filter(trip => isCommute(trip) && isLowCarbon(trip.transportTypeId, types)).length
+  },
+  {
+    id: 'low-carbon-streak',
+    name: 'On a roll',
+    description: '10 low-carbon trips in a row',
+    target: 10,
+    measure: getLowCarbonStreak
+  },
+  {
+    id: 'century-cyclist',
+    name: 'Century cyclist',
+    description: 'Cycle 100 km',
+    target: 100,
+    measure: (trips, types) => trips.filter(trip => hasProfile(trip, types, 'cycling')).reduce((sum, trip) => sum + trip.distance, 0)
+  },
+  {
+    id: 'walker',
+    name: 'Step by step',
+    description: 'Walk 25 km',
+    target: 25,
+    measure: (trips, types) => trips.filter(trip => hasProfile(trip, types, 'walking')).reduce((sum, trip) => sum + trip.distance, 0)
+  },
+  {
+    id: 'transit-regular',
+    name: 'Transit regular',
+    description: '20 trips by public transport',
+    target: 20,
+    measure: (trips, types) => trips.filter(trip => hasProfile(trip, types, 'transit')).length
+  },
+  {
+    id: 'budget-keeper',
+    name: 'Budget keeper',
+    description: '4 weeks in a row under your weekly budget',
+    target: 4,
+    measure: (trips, _types, budget) => getBudgetStreak(trips, budget)
+  },
+  {
+    id: 'carbon-saver',
+    name: 'Carbon saver',
+    description: 'Save 50 kg CO₂ compared with driving',
+    target: 50,
+    measure: getSavingsVsDriving
+  }
+];
+
+export const getBadges = (trips: GoalTrip[], transportTypes: TransportType[], budget: FootprintBudget): Badge[] => {
+  return badgeDefinitions.map(({ measure, ...badge }) => {
+    const progress = measure(trips, transportTypes, budget);
+    return { ...badge, progress, earned: progress >= badge.target };
+  });
+};
+
+export const challengeCatalogue: ChallengeDefinition[] = [
+  {
+    id: 'car-free-week',
+    name: 'Car-free week',
+    description: 'Make 5 trips in a week without a car, taxi, motorbike or plane.',
+    days: 7,
+    target: 5,
+    unit: 'trips',
+    direction: 'at-least',
+    measure: (trips, types) => trips.filter(trip => isLowCarbon(trip.transportTypeId, types)).length,
+    breaksOn: (trip, types) => !isLowCarbon(trip.transportTypeId, types)
+  },
+  {
+    id: 'bike-week',
+    name: 'Bike week',
+    description: 'Cycle 5 trips within a week.',
+    days: 7,
+    target: 5,
+    unit: 'trips',
+    direction: 'at-least',
+    measure: (trips, types) => trips.filter(trip => hasProfile(trip, types, 'cycling')).length
+  },
+  {
+    id: 'transit-fortnight',
+    name: 'Transit fortnight',
+    description: 'Take public transport 10 times in two weeks.',
+    days: 14,
+    target: 10,
+    unit: 'trips',
+    direction: 'at-least',
+    measure: (trips, types) => trips.filter(trip => hasProfile(trip, types, 'transit')).length
+  },
+  {
+    id: 'low-footprint-month',
+    name: 'Low-footprint month',
+    description: 'Keep your travel under 40 kg CO₂ for 30 days.',
+    days: 30,
+    target: 40,
+    unit: 'kg',
+    direction: 'at-most',
+    measure: trips => trips.reduce((sum, trip) => sum + trip.emissions, 0)
+  }
+];
+
+export const getChallengeProgress = (
+  joined: JoinedChallenge,
+  trips: GoalTrip[],
+  transportTypes: TransportType[],
+  now = new Date()
+): ChallengeProgress | null => {
+  const challenge = challengeCatalogue.find(item => item.id === joined.challengeId);
+  if (!challenge) return null;
+  const startsAt = new Date(joined.startedAt);
+  const endsAt = new Date(startsAt.getTime() + challenge.days * DAY_MS);
+  const inWindow = trips.filter(trip => {
+    const time = new Date(trip.timestamp);
+    return time >= startsAt && time < endsAt;
+  });
+  const progress = challenge.measure(inWindow, transportTypes);
+  const isOver = now >= endsAt;
+
+  // An 'at-least' challenge is done once the target is reached, so only trips up to then can break it
+  const ordered = byTime(inWindow);
+  const reachedAt = ordered.findIndex((_, index) => challenge.measure(ordered.slice(0, index + 1), transportTypes) >= challenge.target);
+  const beforeTarget = reachedAt === -1 ? ordered : ordered.slice(0, reachedAt + 1);
+
+  let status: ChallengeStatus;
+  if (challenge.direction === 'at-most') {
+    status = progress > challenge.target ? 'failed' : isOver ? 'completed' : 'active';
+  } else if (challenge.breaksOn && beforeTarget.some(trip => challenge.breaksOn!(trip, transportTypes))) {
+    status = 'failed';
+  } else {
+    status = progress >= challenge.target ? 'completed' : isOver ? 'expired' : 'active';
+  }
+
+  return { challenge, joined, endsAt, progress, status };
+};
+
+const formatKg = (kg: number) => `${kg.toFixed(1)} kg`;
+
+// How saving a result now would move the budget, the low-carbon goal, the streak and active challenges
+export const getGoalImpact = (
+  result: EmissionResult,
+  trips: GoalTrip[],
+  budget: FootprintBudget,
+  goal: LowCarbonGoal,
+  challenges: JoinedChallenge[],
+  transportTypes: TransportType[],
+  now = new Date()
+): GoalImpact[] => {
+  const impacts: GoalImpact[] = [];
+  const trip: GoalTrip = {
+    transportTypeId: result.transportTypeId,
+    transportType: result.transportType,
+    distance: result.distance,
+    emissions: result.emissions,
+    timestamp: now.toISOString()
+  };
+  const withTrip = [...trips, trip];
+  const lowCarbon = isLowCarbon(result.transportTypeId, transportTypes);
+
+  (['week', 'month'] as Period[]).forEach(period => {
+    const limit = period === 'week' ? budget.weekly : budget.monthly;
+    if (limit <= 0) return;
+    const [{ emissions: before }] = summariseByPeriod(trips, period, 1, now);
+    const after = before + result.emissions;
+    const label = period === 'week' ? 'weekly' : 'monthly';
+    impacts.push({
+      id: `budget-${period}`,
+      message: after > limit
+        ? `Takes you ${before > limit ? 'further ' : ''}over your ${label} budget: ${formatKg(before)} → ${formatKg(after)} of ${limit} kg.`
+        : result.emissions > 0
+          ? `Uses ${Math.round((result.emissions / limit) * 100)}% of your ${label} budget: ${formatKg(before)} → ${formatKg(after)} of ${limit} kg.`
+          : `Adds nothing to your ${label} budget: ${formatKg(before)} of ${limit} kg used.`,
+      tone: after > limit ? 'negative' : result.emissions > 0 ? 'neutral' : 'positive'
+    });
+  });
+
+  if (goal.share > 0) {
+    const before = getLowCarbonShare(trips, goal.period, transportTypes, now);
+    const after = getLowCarbonShare(withTrip, goal.period, transportTypes, now);
+    impacts.push({
+      id: 'low-carbon-share',
+      message: `Low-carbon trips this ${goal.period}: ${Math.round(before.share)}% → ${Math.round(after.share)}% (goal ${goal.share}%).`,
+      tone: after.share >= goal.share ? 'positive' : after.share < before.share ? 'negative' : 'neutral'
+    });
+  }
+
+  const streak = getLowCarbonStreak(trips, transportTypes);
+  if (lowCarbon) {
+    impacts.push({ id: 'streak', message: `Extends your low-carbon streak to ${streak + 1} trips.`, tone: 'positive' });
+  } else if (streak > 0) {
+    impacts.push({ id: 'streak', message: `Ends your low-carbon streak of ${streak} trips.`, tone: 'negative' });
+  }
+
+  challenges.forEach(joined => {
+    const before = getChallengeProgress(joined, trips, transportTypes, now);
+    const after = getChallengeProgress(joined, withTrip, transportTypes, now);
+    if (!before || !after || before.status !== 'active' || (after.progress === before.progress && after.status === 'active')) return;
+    const { name, target, unit } = after.challenge;
+    const amount = (value: number) => (unit === 'kg' ? value.toFixed(1) : String(value));
+    impacts.push({
+      id: `challenge-${joined.challengeId}`,
+      message: after.status === 'failed'
+        ? `Fails the ${name} challenge.`
+        : after.status === 'completed'
+          ? `Completes the ${name} challenge!`
+          : `${name}: ${amount(before.progress)} → ${amount(after.progress)} of ${target} ${unit}.`,
+      tone: after.status === 'failed' ? 'negative' : after.status === 'completed' || unit === 'trips' ? 'positive' : 'neutral'
+    });
+  });
+
+  return impacts;
+};
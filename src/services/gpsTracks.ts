@@ -0,0 +1,324 @@
+import type { EmissionResult, LatLngTuple, TransportType } from '../types';
+import { haversineDistance } from '../utils/geo';
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  time?: number; // ms since epoch, when the file records it
+}
+
+// One recorded track from a GPX, KML or GeoJSON file
+export interface GpsTrack {
+  name: string;
+  points: TrackPoint[];
+}
+
+export type Activity = 'walking' | 'cycling' | 'driving' | 'transit';
+
+export interface ModeInference {
+  activity: Activity;
+  transportTypeId: string;
+  medianSpeed: number; // km/h while moving
+  maxSpeed: number; // km/h, 90th percentile so GPS spikes don't count
+}
+
+// A track ready to be saved as a trip
+export interface TrackSummary {
+  name: string;
+  points: TrackPoint[]; // with stationary stretches trimmed
+  distance: number; // km along the path
+  startTime?: string; // ISO date
+  duration?: number; // minutes spent moving, without timestamps undefined
+  stationaryMinutes: number; // time spent stopped, trimmed from the path
+  inferredMode: ModeInference | null; // null without timestamps
+}
+
+// Points that stay this close for this long are a stop (waiting at the start, a coffee break, ...)
+const STOP_RADIUS_M = 25;
+const STOP_MIN_SECONDS = 120;
+// Without timestamps, this many points in a row in one spot count as a stop
+const STOP_MIN_POINTS = 10;
+// Faster than this between two fixes is a GPS glitch, not travel
+const MAX_PLAUSIBLE_SPEED_KMH = 300;
+// Below this a step counts as standing still when reading the speed profile
+const MOVING_SPEED_KMH = 3;
+// Stored trips keep a thinned copy of the track for drawing
+const MAX_STORED_POINTS = 300;
+
+const activityModes: Record<Activity, string> = {
+  walking: 'walking',
+  cycling: 'cycling',
+  driving: 'gas-car',
+  transit: 'bus'
+};
+
+const distanceM = (a: TrackPoint, b: TrackPoint) => haversineDistance(a.lat, a.lng, b.lat, b.lng) * 1000;
+
+const isValidPoint = (point: TrackPoint) => {
+  return Number.isFinite(point.lat) && Math.abs(point.lat) <= 90 && Number.isFinite(point.lng) && Math.abs(point.lng) <= 180;
+};
+
+const parseTime = (value: string | null | undefined): number | undefined => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : undefined;
+};
+
+// Elements by local name, whatever namespace prefix the file uses
+const elements = (parent: Document | Element, name: string): Element[] => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childText = (parent: Element, name: string): string | undefined => {
+  return elements(parent, name)[0]?.textContent?.trim() || undefined;
+};
+
+const parseGpx = (doc: Document, fallbackName: string): GpsTrack[] => {
+  const toPoint = (element: Element): TrackPoint => ({
+    lat: parseFloat(element.getAttribute('lat') ?? ''),
+    lng: parseFloat(element.getAttribute('lon') ?? ''),
+    time: parseTime(childText(element, 'time'))
+  });
+  const tracks = elements(doc, 'trk').map((track, index) => ({
+    name: childText(track, 'name') ?? `${fallbackName} ${index + 1}`,
+    points: elements(track, 'trkpt').map(toPoint)
+  }));
+  const routes = elements(doc, 'rte').map((route, index) => ({
+    name: childText(route, 'name') ?? `${fallbackName} route ${index + 1}`,
+    points: elements(route, 'rtept').map(toPoint)
+  }));
+  return [...tracks, ...routes];
+};
+
+const parseKml = (doc: Document, fallbackName: string): GpsTrack[] => {
+  return elements(doc, 'Placemark').flatMap((placemark, index) => {
+    const name = childText(placemark, 'name') ?? `${fallbackName} ${index + 1}`;
+    // gx:Track pairs each <when> with a "lng lat alt" <gx:coord>
+    const timed = elements(placemark, 'Track').map(track => {
+      const times = elements(track, 'when').map(when => parseTime(when.textContent));
+      return elements(track, 'coord').map((coord, i) => {
+        const [lng, lat] = (coord.textContent ?? '').trim().split(/\s+/).map(Number);
+        return { lat, lng, time: times[i] };
+      });
+    });
+    // LineString coordinates are whitespace-separated "lng,lat[,alt]" tuples
+    const lines = elements(placemark, 'LineString').map(line => (childText(line, 'coordinates') ?? '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(tuple => {
+        const [lng, lat] = tuple.split(',').map(Number);
+        return { lat, lng };
+      }));
+    return [...timed, ...lines].map(points => ({ name, points }));
+  });
+};
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: { name?: string; coordTimes?: unknown; times?: unknown } | null;
+}
+
+const isGeometry = (value: unknown): value is GeoJsonGeometry => {
+  return typeof value === 'object' && value !== null && typeof (value as GeoJsonGeometry).type === 'string';
+};
+
+const isFeature = (value: unknown): value is GeoJsonFeature => {
+  const feature = value as GeoJsonFeature;
+  return typeof feature === 'object' && feature !== null && feature.type === 'Feature'
+    && (feature.geometry === null || isGeometry(feature.geometry));
+};
+
+// A LineString's coordinates: [lng, lat] positions, possibly with altitude
+const isLine = (value: unknown): value is number[][] => {
+  return Array.isArray(value) && value.every(position =>
+    Array.isArray(position) && typeof position[0] === 'number' && typeof position[1] === 'number');
+};
+
+// Times come from the coordTimes (or times) property written by most GPS-to-GeoJSON converters
+const parseGeoJson = (data: { type?: string; features?: unknown[] } & GeoJsonGeometry, fallbackName: string): GpsTrack[] => {
+  const features: GeoJsonFeature[] = data.type === 'FeatureCollection' ? (data.features ?? []).filter(isFeature)
+    : isFeature(data) ? [data]
+    : isGeometry(data) ? [{ type: 'Feature', geometry: data }]
+    : [];
+
+  return features.flatMap((feature, index) => {
+    const name = feature.properties?.name ?? `${fallbackName} ${index + 1}`;
+    const times = feature.properties?.coordTimes ?? feature.properties?.times;
+    const geometry = feature.geometry;
+    const lines = geometry?.type === 'LineString' && isLine(geometry.coordinates) ? [geometry.coordinates]
+      : geometry?.type === 'MultiLineString' && Array.isArray(geometry.coordinates) ? geometry.coordinates.map(line => (isLine(line) ? line : []))
+      : [];
+
+    return lines.map((line, lineIndex) => {
+      const lineTimes = Array.isArray(times) ? (geometry?.type === 'MultiLineString' ? times[lineIndex] : times) : undefined;
+      return {
+        name: lines.length > 1 ? `${name} (${lineIndex + 1})` : name,
+        points: line.map(([lng, lat], i) => ({
+          lat,
+          lng,
+          time: Array.isArray(lineTimes) ? parseTime(String(lineTimes[i])) : undefined
+        }))
+      };
+    });
+  });
+};
+
+// Read every track in a GPX, KML or GeoJSON file; empty when the file holds none
+export const parseGpsFile = (text: string, fileName: string): GpsTrack[] => {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  try {
+    let tracks: GpsTrack[];
+    if (/\.(geo)?json$/i.test(fileName) || text.trimStart().startsWith('{')) {
+      tracks = parseGeoJson(JSON.parse(text), baseName);
+    } else {
+      const doc = new DOMParser().parseFromString(text, 'application/xml');
+      if (doc.getElementsByTagName('parsererror').length > 0) return [];
+      tracks = doc.documentElement.localName === 'kml' ? parseKml(doc, baseName) : parseGpx(doc, baseName);
+    }
+    return tracks
+      .map(track => ({ ...track, points: track.points.filter(isValidPoint) }))
+      .filter(track => track.points.length >= 2);
+  } catch (error) {
+    console.error(`Error reading GPS file ${fileName}:`, error);
+    return [];
+  }
+};
+
+// Drop fixes that imply an impossible jump from the previous one
+const removeGlitches = (points: TrackPoint[]): TrackPoint[] => {
+  const kept: TrackPoint[] = [];
+  for (const point of points) {
+    const previous = kept[kept.length - 1];
+    if (previous?.time !== undefined && point.time !== undefined && point.time > previous.time) {
+      const speed = distanceM(previous, point) / 1000 / ((point.time - previous.time) / 3600000);
+      if (speed > MAX_PLAUSIBLE_SPEED_KMH) continue;
+    }
+    kept.push(point);
+  }
+  return kept;
+};
+
+// Collapse each stretch spent in one spot to a single point, so GPS drift while stopped
+// doesn't add distance. Stops at the very start and end disappear with it.
+export const trimStationary = (points: TrackPoint[]): { points: TrackPoint[]; movingMinutes?: number; stationaryMinutes: number } => {
+  const trimmed: TrackPoint[] = [];
+  let stationaryMs = 0;
+  let movingMs = 0;
+  let hasTimes = false;
+  const addStep = (from: TrackPoint, to: TrackPoint | undefined, isStop: boolean) => {
+    if (from.time === undefined || to?.time === undefined) return;
+    hasTimes = true;
+    if (isStop) stationaryMs += to.time - from.time;
+    else movingMs += to.time - from.time;
+  };
+  let i = 0;
+  while (i < points.length) {
+    const anchor = points[i];
+    let j = i;
+    while (j + 1 < points.length && distanceM(anchor, points[j + 1]) <= STOP_RADIUS_M) j++;
+
+    const last = points[j];
+    const isStop = anchor.time !== undefined && last.time !== undefined
+      ? (last.time - anchor.time) / 1000 >= STOP_MIN_SECONDS
+      : j - i + 1 >= STOP_MIN_POINTS;
+    if (isStop) {
+      // Keep the stop as one point; travel resumes from its last fix
+      trimmed.push(anchor);
+      addStep(anchor, last, true);
+      addStep(last, points[j + 1], false);
+      i = j + 1;
+    } else {
+      trimmed.push(anchor);
+      addStep(anchor, points[i + 1], false);
+      i++;
+    }
+  }
+  return {
+    points: trimmed,
+    movingMinutes: hasTimes ? Math.round(movingMs / 60000) : undefined,
+    stationaryMinutes: Math.round(stationaryMs / 60000)
+  };
+};
+
+// Length of the path in km
+export const trackDistance = (points: TrackPoint[]): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceM(points[i - 1], points[i]) / 1000;
+  }
+  return total;
+};
+
+const percentile = (sorted: number[], share: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * share))];
+
+// Guess how a track was travelled from its speed profile; null without enough timestamps
+export const inferMode = (points: TrackPoint[]): ModeInference | null => {
+  const speeds: number[] = [];
+  let halts = 0;
+  let wasMoving = false;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const point = points[i];
+    if (previous.time === undefined || point.time === undefined || point.time <= previous.time) continue;
+    const speed = distanceM(previous, point) / 1000 / ((point.time - previous.time) / 3600000);
+    const isMoving = speed >= MOVING_SPEED_KMH;
+    if (isMoving) speeds.push(speed);
+    if (wasMoving && !isMoving) halts++;
+    wasMoving = isMoving;
+  }
+  if (speeds.length < 5) return null;
+
+  speeds.sort((a, b) => a - b);
+  const medianSpeed = percentile(speeds, 0.5);
+  const maxSpeed = percentile(speeds, 0.9);
+  const haltsPerKm = halts / Math.max(trackDistance(points), 0.1);
+
+  // Buses and trams stop every few hundred metres and rarely cruise fast; cars keep moving
+  const activity: Activity = maxSpeed < 8 ? 'walking'
+    : maxSpeed < 30 && medianSpeed < 22 ? 'cycling'
+    : medianSpeed < 35 && haltsPerKm >= 0.8 ? 'transit'
+    : 'driving';
+
+  return {
+    activity,
+    transportTypeId: activityModes[activity],
+    medianSpeed: parseFloat(medianSpeed.toFixed(1)),
+    maxSpeed: parseFloat(maxSpeed.toFixed(1))
+  };
+};
+
+export const analyseTrack = (track: GpsTrack): TrackSummary => {
+  const cleaned = removeGlitches(track.points);
+  const { points, movingMinutes, stationaryMinutes } = trimStationary(cleaned);
+  const first = cleaned.find(point => point.time !== undefined)?.time;
+  return {
+    name: track.name,
+    points,
+    distance: parseFloat(trackDistance(points).toFixed(2)),
+    startTime: first !== undefined ? new Date(first).toISOString() : undefined,
+    duration: movingMinutes,
+    stationaryMinutes,
+    inferredMode: inferMode(cleaned)
+  };
+};
+
+// Every nth point (always keeping the last), enough to draw the track on a map
+export const thinTrack = (points: TrackPoint[], maxPoints = MAX_STORED_POINTS): LatLngTuple[] => {
+  const step = Math.max(1, Math.ceil(points.length / maxPoints));
+  const thinned = points.filter((_, index) => index % step === 0 || index === points.length - 1);
+  return thinned.map(point => [parseFloat(point.lat.toFixed(5)), parseFloat(point.lng.toFixed(5))]);
+};
+
+// The track priced with a transport type, using the recorded distance instead of a routed one
+export const trackToResult = (summary: TrackSummary, transportType: TransportType): EmissionResult => ({
+  distance: summary.distance,
+  emissions: parseFloat(((summary.distance * transportType.emissionFactor) / 1000).toFixed(2)),
+  transportType: transportType.name,
+  transportTypeId: transportType.id,
+  distanceSource: 'gps-track',
+  duration: summary.duration,
+  routeGeometry: thinTrack(summary.points)
+});
@@ -0,0 +1,103 @@
+import type { EmissionResult, Location, SegmentResult, Waypoint } from '../types';
+import { haversineDistance } from '../utils/geo';
+
+// Brute-force search is exact up to this many intermediate stops (7! = 5040 orders)
+const MAX_EXHAUSTIVE_STOPS = 7;
+
+// Give a location a stable id so it can be listed and reordered as an intermediate stop
+export const toWaypoint = (location: Location): Waypoint => {
+  return 'id' in location
+    ? location as Waypoint
+    : { ...location, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}` };
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
+
+// Combine per-segment results into the result for the whole itinerary
+export const combineSegments = (segments: SegmentResult[]): EmissionResult => {
+  const names = [...new Set(segments.map(segment => segment.transportType))];
+  const ids = [...new Set(segments.map(segment => segment.transportTypeId))];
+  const legs = segments.flatMap(segment => segment.legs ?? []);
+  const distance = segments.reduce((sum, segment) => sum + segment.distance, 0);
+  const emissions = segments.reduce((sum, segment) => sum + segment.emissions, 0);
+  // The whole vehicle's emissions only add up when every segment is in a vehicle with its own factor
+  const vehicleEmissions = segments.every(segment => segment.vehicleEmissions !== undefined)
+    ? segments.reduce((sum, segment) => sum + (segment.vehicleEmissions ?? 0), 0)
+    : undefined;
+
+  return {
+    distance: parseFloat(distance.toFixed(2)),
+    emissions: parseFloat(emissions.toFixed(2)),
+    transportType: names.length === 1 ? names[0] : 'Mixed',
+    transportTypeId: ids.length === 1 ? ids[0] : 'mixed',
+    distanceSource: segments.every(segment => segment.distanceSource !== 'straight-line') ? 'route' : 'straight-line',
+    duration: segments.reduce((sum, segment) => sum + (segment.duration ?? 0), 0),
+    legs: legs.length > 0 ? legs : undefined,
+    segments,
+    passengers: Math.max(...segments.map(segment => segment.passengers ?? 1)),
+    roundTrip: segments[0]?.roundTrip,
+    vehicleEmissions: vehicleEmissions !== undefined ? parseFloat(vehicleEmissions.toFixed(2)) : undefined
+  };
+};
+
+// Estimated grams of CO2 for visiting the stops in order; segment i uses segmentFactors[i] g/km
+const estimateOrder = (stops: Location[], segmentFactors: number[]): number => {
+  let total = 0;
+  for (let i = 1; i < stops.length; i++) {
+    total += haversineDistance(stops[i - 1].lat, stops[i - 1].lng, stops[i].lat, stops[i].lng) * segmentFactors[i - 1];
+  }
+  return total;
+};
+
+const permutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+};
+
+// Order the intermediate stops for the lowest estimated emissions, keeping start and end fixed.
+// segmentFactors[i] is the factor of the segment arriving at via[i] (the last one arriving at the end); each stop
+// keeps its arrival mode wherever it moves. Uses straight-line distances so it needs no routing calls; exhaustive
+// for small trips, nearest-neighbour beyond that.
+export const optimiseStopOrder = (start: Location, via: Waypoint[], end: Location, segmentFactors: number[]): Waypoint[] => {
+  if (via.length < 2) return via;
+  const arrivalFactors = new Map(via.map((stop, index) => [stop.id, segmentFactors[index]]));
+  const endFactor = segmentFactors[via.length];
+  const factorsFor = (order: Waypoint[]) => [...order.map(stop => arrivalFactors.get(stop.id)!), endFactor];
+
+  if (via.length <= MAX_EXHAUSTIVE_STOPS) {
+    let best = via;
+    let bestEmissions = Infinity;
+    for (const order of permutations(via)) {
+      const emissions = estimateOrder([start, ...order, end], factorsFor(order));
+      if (emissions < bestEmissions) {
+        best = order;
+        bestEmissions = emissions;
+      }
+    }
+    return best;
+  }
+
+  const remaining = [...via];
+  const ordered: Waypoint[] = [];
+  let current: Location = start;
+  const costTo = (stop: Waypoint) => estimateOrder([current, stop], [arrivalFactors.get(stop.id)!]);
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (costTo(remaining[i]) < costTo(remaining[nearest])) {
+        nearest = i;
+      }
+    }
+    const next = remaining.splice(nearest, 1)[0];
+    ordered.push(next);
+    current = next;
+  }
+  return ordered;
+};
@@ -0,0 +1,123 @@
+// Offline support: the service worker in public/sw.js serves the app shell and map tiles from these caches
+const SHELL_CACHE = 'footprint-shell-v1';
+// Downloaded areas get their own cache, which the service worker never trims (unlike the runtime tile cache)
+const REGION_TILE_CACHE = 'footprint-region-tiles-v1';
+
+export const TILE_URL = import.meta.env.VITE_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const TILE_SUBDOMAINS = ['a', 'b', 'c'];
+
+// An area whose tiles can be stored for offline use
+export interface TileRegion {
+  id: string;
+  name: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  minZoom: number;
+  maxZoom: number;
+}
+
+// Kept to city scale: tile servers like OpenStreetMap's don't allow bulk downloads
+export const MAX_REGION_TILES = 1500;
+const DOWNLOAD_CONCURRENCY = 4;
+
+// The home region's area, from city overview down to neighbourhood level
+export const homeTileRegion = (region: { id: string; name: string; bounds: { south: number; west: number; north: number; east: number } }): TileRegion => ({
+  id: region.id,
+  name: region.name,
+  ...region.bounds,
+  minZoom: 9,
+  maxZoom: 13
+});
+
+export const isServiceWorkerSupported = () => 'serviceWorker' in navigator && 'caches' in window;
+
+// Register the service worker in production builds, then store the scripts and styles this page loaded,
+// which were fetched before the worker could see them
+export const registerServiceWorker = async () => {
+  if (!import.meta.env.PROD || !isServiceWorkerSupported()) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+    const assets = performance.getEntriesByType('resource')
+      .map(entry => new URL(entry.name))
+      .filter(url => url.origin === window.location.origin && !url.pathname.startsWith('/api/'))
+      .map(url => url.pathname);
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll([...new Set(assets)]);
+  } catch (error) {
+    console.error("Error registering service worker:", error);
+  }
+};
+
+const toTileX = (lng: number, zoom: number) => Math.floor(((lng + 180) / 360) * 2 ** zoom);
+const toTileY = (lat: number, zoom: number) => {
+  const radians = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+// Tile URLs covering a region, with the subdomain Leaflet would pick for each tile so the cached copies match
+export const getTileUrls = (region: TileRegion, template = TILE_URL): string[] => {
+  const urls: string[] = [];
+  for (let zoom = region.minZoom; zoom <= region.maxZoom; zoom++) {
+    for (let x = toTileX(region.west, zoom); x <= toTileX(region.east, zoom); x++) {
+      for (let y = toTileY(region.north, zoom); y <= toTileY(region.south, zoom); y++) {
+        urls.push(template
+          .replace('{s}', TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length])
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(x))
+          .replace('{y}', String(y))
+          .replace('{r}', ''));
+      }
+    }
+  }
+  return urls;
+};
+
+// Download a region's tiles into the region tile cache, skipping those already there
+export const cacheTileRegion = async (
+  region: TileRegion,
+  onProgress: (done: number, total: number) => void
+): Promise<{ cached: number; failed: number }> => {
+  const urls = getTileUrls(region);
+  if (urls.length > MAX_REGION_TILES) {
+    throw new Error(`${region.name} needs ${urls.length} tiles; the limit is ${MAX_REGION_TILES}.`);
+  }
+  const cache = await caches.open(REGION_TILE_CACHE);
+  let done = 0;
+  let failed = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      try {
+        if (!(await cache.match(url))) {
+          // Tiles are shown as plain images, so store them the same way (opaque, no CORS needed)
+          const response = await fetch(url, { mode: 'no-cors' });
+          if (response.ok || response.type === 'opaque') {
+            await cache.put(url, response);
+          } else {
+            failed++;
+          }
+        }
+      } catch (error) {
+        console.error("Error caching map tile:", error);
+        failed++;
+      }
+      onProgress(++done, urls.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  return { cached: urls.length - failed, failed };
+};
+
+// The map area currently shown, as a region down to street level
+export const regionFromBounds = (bounds: { south: number; west: number; north: number; east: number }, zoom: number): TileRegion => ({
+  id: 'current-view',
+  name: 'The current map view',
+  ...bounds,
+  minZoom: Math.max(Math.round(zoom) - 2, 0),
+  maxZoom: Math.min(Math.round(zoom) + 2, 16)
+});
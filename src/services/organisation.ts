@@ -0,0 +1,129 @@
+import type { CommuteSchedule, EmissionResult, Location, OrgCommute, OrgPrivacySettings, OrgSummary, TransportType } from '../types';
+import { apiUrl } from './api';
+import { getOneWay } from './tripOptions';
+
+// This browser's membership of an organisation workspace on the API server
+export interface Membership {
+  orgId: string;
+  orgName: string;
+  memberId: string;
+  memberToken: string;
+  adminToken?: string; // only for the member who created the organisation
+  joinCode?: string;
+}
+
+const MEMBERSHIP_KEY = 'footprint.organisation';
+
+export const loadMembership = (): Membership | null => {
+  try {
+    const stored = localStorage.getItem(MEMBERSHIP_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Error loading organisation membership:", error);
+    return null;
+  }
+};
+
+export const saveMembership = (membership: Membership | null) => {
+  try {
+    if (membership) {
+      localStorage.setItem(MEMBERSHIP_KEY, JSON.stringify(membership));
+    } else {
+      localStorage.removeItem(MEMBERSHIP_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving organisation membership:", error);
+  }
+};
+
+// Call the organisation API; throws with the server's message when the request fails
+const request = async <T>(path: string, options: { method?: string; token?: string; body?: unknown } = {}): Promise<T> => {
+  const response = await fetch(apiUrl(`/api/orgs${path}`), {
+    method: options.method ?? 'GET',
+    headers: {
+      ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(options.token && { Authorization: `Bearer ${options.token}` })
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Organisation request failed with status ${response.status}`);
+  }
+  if (response.status === 204) return undefined as T;
+  return (response.headers.get('Content-Type')?.includes('json') ? response.json() : response.text()) as Promise<T>;
+};
+
+export const createOrganisation = async (name: string, displayName: string): Promise<Membership> => {
+  const data = await request<{ organisation: { id: string; name: string; joinCode: string }; memberId: string; memberToken: string; adminToken: string }>(
+    '', { method: 'POST', body: { name, displayName } }
+  );
+  return {
+    orgId: data.organisation.id,
+    orgName: data.organisation.name,
+    memberId: data.memberId,
+    memberToken: data.memberToken,
+    adminToken: data.adminToken,
+    joinCode: data.organisation.joinCode
+  };
+};
+
+export const joinOrganisation = async (joinCode: string, displayName: string): Promise<Membership> => {
+  const data = await request<{ organisation: { id: string; name: string }; memberId: string; memberToken: string }>(
+    '/join', { method: 'POST', body: { joinCode, displayName } }
+  );
+  return { orgId: data.organisation.id, orgName: data.organisation.name, memberId: data.memberId, memberToken: data.memberToken };
+};
+
+// Leaving also deletes everything this member submitted
+export const leaveOrganisation = (membership: Membership) => {
+  return request<void>(`/${membership.orgId}/members/me`, { method: 'DELETE', token: membership.memberToken });
+};
+
+export const listMyCommutes = (membership: Membership) => {
+  return request<OrgCommute[]>(`/${membership.orgId}/commutes`, { token: membership.memberToken });
+};
+
+// Submit a calculated trip as a recurring commute. The server reduces the locations to the organisation's precision.
+export const submitCommute = (
+  membership: Membership,
+  result: EmissionResult,
+  locations: { start: Location; end: Location },
+  schedule: CommuteSchedule,
+  transportType: TransportType | undefined
+) => {
+  return request<OrgCommute>(`/${membership.orgId}/commutes`, {
+    method: 'POST',
+    token: membership.memberToken,
+    body: {
+      start: locations.start,
+      end: locations.end,
+      transportTypeId: result.transportTypeId,
+      transportType: result.transportType,
+      // Commutes are kept one way; the schedule says how often they are made
+      ...getOneWay(result),
+      // Transit itineraries price each leg with its own mode, so their factor is the blend over the trip
+      emissionFactor: result.legs && result.distance > 0
+        ? parseFloat(((result.emissions / result.distance) * 1000).toFixed(1))
+        : transportType?.emissionFactor ?? 0,
+      factorSource: transportType?.source ?? '',
+      schedule
+    }
+  });
+};
+
+export const deleteCommute = (membership: Membership, commuteId: string) => {
+  return request<void>(`/${membership.orgId}/commutes/${commuteId}`, { method: 'DELETE', token: membership.memberToken });
+};
+
+export const fetchOrgSummary = (membership: Membership) => {
+  return request<OrgSummary>(`/${membership.orgId}/summary`, { token: membership.adminToken });
+};
+
+export const updateOrgPrivacy = (membership: Membership, privacy: Partial<OrgPrivacySettings>) => {
+  return request<OrgPrivacySettings>(`/${membership.orgId}/privacy`, { method: 'PUT', token: membership.adminToken, body: privacy });
+};
+
+export const fetchScope3Csv = (membership: Membership, year: number) => {
+  return request<string>(`/${membership.orgId}/scope3.csv?year=${year}`, { token: membership.adminToken });
+};
@@ -0,0 +1,25 @@
+export interface Preferences {
+  aiFeedback: boolean; // ask the LLM for an analysis of each result
+}
+
+const PREFERENCES_KEY = 'footprint.preferences';
+
+export const defaultPreferences: Preferences = { aiFeedback: true };
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_KEY);
+    return stored ? { ...defaultPreferences, ...JSON.parse(stored) } : defaultPreferences;
+  } catch (error) {
+    console.error("Error loading preferences:", error);
+    return defaultPreferences;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Error saving preferences:", error);
+  }
+};
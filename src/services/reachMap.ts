@@ -0,0 +1,160 @@
+import type { LatLngTuple, Location, TransportType } from '../types';
+import type { RoutingProvider } from './routing';
+import { haversineDistance } from '../utils/geo';
+
+// One square of the grid around the origin, with what reaching its centre would take
+export interface ReachCell {
+  bounds: [LatLngTuple, LatLngTuple]; // south-west and north-east corners
+  distance: number; // km
+  emissions: number; // kg CO2
+  duration: number; // minutes
+}
+
+export interface ReachMap {
+  origin: Location;
+  transportTypeId: string;
+  transportType: string;
+  radius: number; // km
+  cells: ReachCell[];
+  routedProbes: number; // probe routes the estimate is based on; 0 means straight lines only
+}
+
+// Shade cells by CO2, or show only those within both budgets
+export type ReachDisplay =
+  | { kind: 'emissions' }
+  | { kind: 'budget'; maxEmissions: number; maxDuration: number };
+
+export interface ReachBand {
+  max: number | null; // kg CO2, null for the open-ended last band
+  label: string;
+  color: string;
+}
+
+// Routing every cell would take hundreds of requests, so a few probe routes in evenly spread directions
+// measure how much longer than the straight line the network is and how fast it goes; every cell is
+// then scaled by the probes nearest its bearing.
+const PROBE_COUNT = 8;
+const PROBE_RADIUS_SHARE = 0.6;
+const GRID_SIZE = 15; // cells along each side
+// Typical ratio of road to straight-line distance, used when no probe could be routed
+const DEFAULT_CIRCUITY = 1.3;
+const KM_PER_DEGREE_LAT = 111.32;
+
+export const reachBands: ReachBand[] = [
+  { max: 0.1, label: 'under 0.1 kg', color: '#16a34a' },
+  { max: 0.5, label: '0.1–0.5 kg', color: '#84cc16' },
+  { max: 1, label: '0.5–1 kg', color: '#eab308' },
+  { max: 2, label: '1–2 kg', color: '#f97316' },
+  { max: 5, label: '2–5 kg', color: '#ef4444' },
+  { max: null, label: '5 kg or more', color: '#7f1d1d' }
+];
+export const REACHABLE_COLOR = '#16a34a';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// The point `km` away from the origin in the direction of `bearing` (degrees from north)
+const offsetLocation = (origin: Location, km: number, bearing: number): Location => {
+  const lat = origin.lat + (km * Math.cos(toRadians(bearing))) / KM_PER_DEGREE_LAT;
+  const lng = origin.lng + (km * Math.sin(toRadians(bearing))) / (KM_PER_DEGREE_LAT * Math.cos(toRadians(origin.lat)));
+  return { lat, lng, address: '' };
+};
+
+const getBearing = (origin: Location, lat: number, lng: number): number => {
+  const north = lat - origin.lat;
+  const east = (lng - origin.lng) * Math.cos(toRadians(origin.lat));
+  return (Math.atan2(east, north) * 180 / Math.PI + 360) % 360;
+};
+
+interface Probe {
+  circuity: number; // network distance / straight-line distance
+  speed: number; // km/h
+}
+
+// Probe routes in every direction; directions without a route borrow the average of the routed ones
+const measureProbes = async (
+  origin: Location,
+  transportType: TransportType,
+  routingProvider: RoutingProvider,
+  radius: number
+): Promise<{ probes: Probe[]; routed: number }> => {
+  const fallback: Probe = { circuity: transportType.routingProfile ? DEFAULT_CIRCUITY : 1, speed: transportType.averageSpeed };
+  const profile = transportType.routingProfile;
+  if (!profile) return { probes: Array(PROBE_COUNT).fill(fallback), routed: 0 };
+
+  const measured = await Promise.all(
+    Array.from({ length: PROBE_COUNT }, async (_, index) => {
+      const destination = offsetLocation(origin, radius * PROBE_RADIUS_SHARE, (index * 360) / PROBE_COUNT);
+      const route = await routingProvider.getRoute(origin, destination, profile);
+      const straight = haversineDistance(origin.lat, origin.lng, destination.lat, destination.lng);
+      if (!route || route.distance <= 0 || route.duration <= 0 || straight <= 0) return null;
+      return { circuity: Math.max(route.distance / straight, 1), speed: route.distance / (route.duration / 60) };
+    })
+  );
+
+  const routed = measured.filter((probe): probe is Probe => probe !== null);
+  const average: Probe = routed.length > 0
+    ? {
+        circuity: routed.reduce((sum, probe) => sum + probe.circuity, 0) / routed.length,
+        speed: routed.reduce((sum, probe) => sum + probe.speed, 0) / routed.length
+      }
+    : fallback;
+  return { probes: measured.map(probe => probe ?? average), routed: routed.length };
+};
+
+// Estimate distance, CO2 and time from the origin to a grid of destinations within `radius` km
+export const computeReachMap = async (
+  origin: Location,
+  transportType: TransportType,
+  routingProvider: RoutingProvider,
+  radius: number
+): Promise<ReachMap> => {
+  const { probes, routed } = await measureProbes(origin, transportType, routingProvider, radius);
+  const cellKm = (radius * 2) / GRID_SIZE;
+  const latStep = cellKm / KM_PER_DEGREE_LAT;
+  const lngStep = cellKm / (KM_PER_DEGREE_LAT * Math.cos(toRadians(origin.lat)));
+  const cells: ReachCell[] = [];
+
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let column = 0; column < GRID_SIZE; column++) {
+      const south = origin.lat + (row - GRID_SIZE / 2) * latStep;
+      const west = origin.lng + (column - GRID_SIZE / 2) * lngStep;
+      const lat = south + latStep / 2;
+      const lng = west + lngStep / 2;
+      const straight = haversineDistance(origin.lat, origin.lng, lat, lng);
+      if (straight > radius) continue;
+
+      // Blend the two probes either side of the cell's bearing
+      const position = (getBearing(origin, lat, lng) / 360) * PROBE_COUNT;
+      const before = probes[Math.floor(position) % PROBE_COUNT];
+      const after = probes[Math.ceil(position) % PROBE_COUNT];
+      const weight = position - Math.floor(position);
+      const circuity = before.circuity * (1 - weight) + after.circuity * weight;
+      const speed = before.speed * (1 - weight) + after.speed * weight;
+
+      const distance = straight * circuity;
+      cells.push({
+        bounds: [[south, west], [south + latStep, west + lngStep]],
+        distance: parseFloat(distance.toFixed(2)),
+        emissions: parseFloat(((distance * transportType.emissionFactor) / 1000).toFixed(2)),
+        duration: Math.round((distance / speed) * 60)
+      });
+    }
+  }
+
+  return {
+    origin,
+    transportTypeId: transportType.id,
+    transportType: transportType.name,
+    radius,
+    cells,
+    routedProbes: routed
+  };
+};
+
+// Fill colour of a cell, or null to leave it undrawn
+export const getReachColor = (cell: ReachCell, display: ReachDisplay): string | null => {
+  if (display.kind === 'budget') {
+    return cell.emissions <= display.maxEmissions && cell.duration <= display.maxDuration ? REACHABLE_COLOR : null;
+  }
+  return reachBands.find(band => band.max === null || cell.emissions < band.max)!.color;
+};
@@ -0,0 +1,142 @@
+import type { EmissionResult, TransitItinerary, TransportType } from '../types';
+import { estimateAlternative, type ModeComparison } from './comparison';
+import { applyLegFactors, sumLegs } from './transit';
+import { applyTransitLoad, defaultTripOptions, MAX_PASSENGERS, type TripOptions } from './tripOptions';
+
+export type RecommendationKind = 'switch' | 'transit' | 'carpool' | 'best';
+
+export interface Recommendation {
+  id: string;
+  kind: RecommendationKind;
+  message: string;
+  transportTypeId?: string;
+  savings: number; // kg CO2 saved compared with the trip as calculated
+  savingsPercent: number;
+}
+
+export interface RecommendationInput {
+  result: EmissionResult;
+  transportTypes: TransportType[];
+  comparisons?: ModeComparison[] | null;
+  itinerary?: TransitItinerary | null; // transit itinerary found for the trip, whichever mode was chosen
+  tripOptions?: TripOptions; // the options transportTypes were adjusted for
+}
+
+// Longest trip each mode is suggested for (km); flights are only suggested beyond MIN_FLIGHT_DISTANCE
+const maxPracticalDistance: Record<string, number> = {
+  walking: 3,
+  cycling: 10,
+  'e-bike': 20
+};
+const MIN_FLIGHT_DISTANCE = 300;
+const MAX_SWITCH_SUGGESTIONS = 3;
+// Savings below this are rounding noise, not advice
+const MIN_SAVINGS = 0.01;
+const NO_CARPOOL = ['taxi', 'motorcycle'];
+const activePhrases: Record<string, string> = { walking: 'on foot', cycling: 'by bike', 'e-bike': 'by e-bike' };
+
+const formatKg = (kg: number) => `${kg.toFixed(2)} kg CO₂`;
+const formatKm = (km: number) => `${km.toFixed(1)} km`;
+
+const isPractical = (transportType: TransportType, distance: number): boolean => {
+  if (transportType.routingProfile === null) return distance >= MIN_FLIGHT_DISTANCE;
+  const limit = maxPracticalDistance[transportType.id];
+  return limit === undefined || distance <= limit;
+};
+
+// Line names of the transit legs, e.g. "the 99 B-Line and Expo Line"
+const describeLines = (itinerary: TransitItinerary): string => {
+  const lines = [...new Set(itinerary.transit.map(step => step.line_name))];
+  if (lines.length === 0) return 'transit';
+  return `the ${lines.length === 1 ? lines[0] : `${lines.slice(0, -1).join(', ')} and ${lines[lines.length - 1]}`}`;
+};
+
+// Concrete, locally computed suggestions for cutting a trip's emissions, largest saving first.
+// Uses the full comparison when one has been run, otherwise scales each mode's factor by the trip distance.
+// Savings are per person, like the result's emissions.
+export const getRecommendations = ({
+  result,
+  transportTypes,
+  comparisons,
+  itinerary,
+  tripOptions = defaultTripOptions
+}: RecommendationInput): Recommendation[] => {
+  const current = result.emissions;
+  const recommendations: Recommendation[] = [];
+  const percentOf = (savings: number) => (current > 0 ? Math.round((savings / current) * 100) : 0);
+  const passengers = result.passengers ?? 1;
+  const saves = (kg: number) => `saves ${formatKg(kg)}${passengers > 1 ? ' each' : ''}`;
+  const trip = result.roundTrip ? 'round trip' : 'trip';
+
+  // Transit with the actual lines from the itinerary, unless the trip already went by transit
+  const chosen = transportTypes.find(type => type.id === result.transportTypeId);
+  const isTransitTrip = chosen?.routingProfile === 'transit' || Boolean(result.legs);
+  if (itinerary && !isTransitTrip) {
+    const transit = sumLegs(applyLegFactors(applyTransitLoad(itinerary.legs, tripOptions.transitLoad), transportTypes));
+    const savings = current - transit.emissions * (result.roundTrip ? 2 : 1);
+    if (savings >= MIN_SAVINGS) {
+      recommendations.push({
+        id: 'transit',
+        kind: 'transit',
+        message: `Transit via ${describeLines(itinerary)} would cut emissions ${percentOf(savings)}% (${saves(savings)}).`,
+        savings,
+        savingsPercent: percentOf(savings)
+      });
+    }
+  }
+
+  const switches = transportTypes
+    .filter(type => type.id !== result.transportTypeId)
+    // The itinerary-based suggestion above already covers transit
+    .filter(type => !(itinerary && !isTransitTrip && type.routingProfile === 'transit'))
+    .map(type => {
+      const { distance, emissions } = estimateAlternative(result, type, comparisons);
+      return { type, distance, savings: current - emissions };
+    })
+    .filter(option => option.savings >= MIN_SAVINGS && isPractical(option.type, option.distance))
+    .sort((a, b) => b.savings - a.savings)
+    .slice(0, MAX_SWITCH_SUGGESTIONS);
+
+  for (const { type, distance, savings } of switches) {
+    const isActive = type.routingProfile === 'walking' || type.routingProfile === 'cycling';
+    recommendations.push({
+      id: `switch-${type.id}`,
+      kind: 'switch',
+      transportTypeId: type.id,
+      message: isActive
+        ? `This ${formatKm(distance)} ${trip} ${activePhrases[type.id] ?? `by ${type.name.toLowerCase()}`} ${saves(savings)}.`
+        : `${type.name} instead would cut emissions ${percentOf(savings)}% (${saves(savings)}).`,
+      savings,
+      savingsPercent: percentOf(savings)
+    });
+  }
+
+  // Sharing a car splits its emissions between the people in it: with n aboard, one more cuts each share by 1/(n + 1)
+  const occupancy = chosen?.occupancy ?? 1;
+  if (chosen?.routingProfile === 'driving' && !NO_CARPOOL.includes(chosen.id) && occupancy < MAX_PASSENGERS && current >= MIN_SAVINGS * 2) {
+    const savings = current / (occupancy + 1);
+    recommendations.push({
+      id: 'carpool',
+      kind: 'carpool',
+      transportTypeId: chosen.id,
+      message: occupancy === 1
+        ? `Sharing the ride with one more person halves your share to ${formatKg(current - savings)} (saves ${formatKg(savings)}).`
+        : `One more person in the car cuts each share from ${formatKg(current)} to ${formatKg(current - savings)}.`,
+      savings,
+      savingsPercent: percentOf(savings)
+    });
+  }
+
+  if (recommendations.length === 0) {
+    return [{
+      id: 'best',
+      kind: 'best',
+      transportTypeId: result.transportTypeId,
+      message: `${result.transportType} is already the lowest-emission practical option for this ${formatKm(result.distance)} ${trip}.`,
+      savings: 0,
+      savingsPercent: 0
+    }];
+  }
+
+  return recommendations.sort((a, b) => b.savings - a.savings);
+};
@@ -0,0 +1,75 @@
+import catalogue from '../data/regions.json';
+import { gridIntensityPresets, type GridIntensityPreset, type ModeOverride } from './emissionFactors';
+import type { GeocodeBias } from './geocoding';
+import type { MapView } from './tripSharing';
+import type { DisplayUnits, DistanceUnit, MassUnit } from '../utils/units';
+
+export interface TransitOperator {
+  name: string;
+  url: string;
+}
+
+// A home region: where the map starts, which grid powers electric vehicles, local fares and units
+export interface Region {
+  id: string;
+  name: string;
+  countryCode: string; // ISO 3166-1 alpha-2, lower case
+  mapView: MapView;
+  bounds: GeocodeBias;
+  gridIntensityPreset: string; // id in the emission factor catalogue
+  currency: string; // ISO 4217 code, used for every price of the region
+  units: { distance: DistanceUnit; mass: MassUnit };
+  transitOperators: TransitOperator[];
+  modes: Record<string, ModeOverride>; // by transport type id
+}
+
+// The chosen region, plus units the user prefers over the region's own
+export interface RegionSettings {
+  regionId: string;
+  distanceUnit?: DistanceUnit;
+  massUnit?: MassUnit;
+}
+
+const REGION_KEY = 'footprint.region';
+
+export const regions = catalogue.regions as Region[];
+
+// The deployment can pick the starting region; otherwise it's the first in the catalogue
+const defaultRegion = regions.find(region => region.id === import.meta.env?.VITE_DEFAULT_REGION) || regions[0];
+
+export const defaultRegionSettings: RegionSettings = { regionId: defaultRegion.id };
+
+export const getRegion = (id: string): Region => {
+  return regions.find(region => region.id === id) || defaultRegion;
+};
+
+export const getRegionGrid = (region: Region): GridIntensityPreset => {
+  return gridIntensityPresets.find(preset => preset.id === region.gridIntensityPreset) || gridIntensityPresets[0];
+};
+
+export const getDisplayUnits = (settings: RegionSettings): DisplayUnits => {
+  const region = getRegion(settings.regionId);
+  return {
+    distance: settings.distanceUnit ?? region.units.distance,
+    mass: settings.massUnit ?? region.units.mass,
+    currency: region.currency
+  };
+};
+
+export const loadRegionSettings = (): RegionSettings => {
+  try {
+    const stored = localStorage.getItem(REGION_KEY);
+    return stored ? { ...defaultRegionSettings, ...JSON.parse(stored) } : defaultRegionSettings;
+  } catch (error) {
+    console.error("Error loading region settings:", error);
+    return defaultRegionSettings;
+  }
+};
+
+export const saveRegionSettings = (settings: RegionSettings) => {
+  try {
+    localStorage.setItem(REGION_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving region settings:", error);
+  }
+};
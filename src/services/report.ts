@@ -0,0 +1,146 @@
+import type { EmissionResult, TransportType } from '../types';
+import type { FactorSettings } from './emissionFactors';
+import { getFactorSet } from './emissionFactors';
+import { describeFactor, getRoutePaths, getUsedTransportTypes, summariseResultByMode, type RoutePath } from './exports';
+import type { GroundedFeedback } from './feedback';
+import type { Recommendation } from './recommendations';
+import { legModes } from './transit';
+import type { TripState } from './tripSharing';
+
+export interface ReportInput {
+  result: EmissionResult;
+  state: TripState;
+  transportTypes: TransportType[];
+  factorSettings: FactorSettings;
+  recommendations: Recommendation[];
+  analysis?: GroundedFeedback | null;
+}
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 320;
+const MAP_PADDING = 24;
+const DEFAULT_PATH_COLOR = '#16A34A';
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const pathColors: Record<string, string> = Object.fromEntries(Object.values(legModes).map(mode => [mode.name, mode.color]));
+
+// Web Mercator, so the sketch has the same shape as the on-screen map
+const project = ([lat, lng]: [number, number]) => {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return { x: lng, y: (-Math.log((1 + sin) / (1 - sin)) / 2) * (180 / Math.PI) };
+};
+
+// Vector snapshot of the route: tiles can't be captured without a third-party service, the geometry can
+const renderRouteMap = (paths: RoutePath[], state: TripState): string => {
+  const stops = [state.start, ...state.via, state.end].filter(stop => stop !== null);
+  const points = [...paths.flatMap(path => path.coordinates), ...stops.map(stop => [stop.lat, stop.lng] as [number, number])].map(project);
+  if (points.length === 0) return '';
+
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const minY = Math.min(...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y));
+  const scale = Math.min((MAP_WIDTH - MAP_PADDING * 2) / (maxX - minX || 1), (MAP_HEIGHT - MAP_PADDING * 2) / (maxY - minY || 1));
+  const offsetX = (MAP_WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = (MAP_HEIGHT - (maxY - minY) * scale) / 2;
+  const toSvg = (coordinate: [number, number]) => {
+    const { x, y } = project(coordinate);
+    return `${((x - minX) * scale + offsetX).toFixed(1)},${((y - minY) * scale + offsetY).toFixed(1)}`;
+  };
+
+  const lines = paths.map(path => `<polyline points="${path.coordinates.map(toSvg).join(' ')}" fill="none" stroke="${pathColors[path.mode] ?? DEFAULT_PATH_COLOR}" stroke-width="4" stroke-linecap="round" stroke-linejoin="round"${path.geometrySource === 'straight-line' ? ' stroke-dasharray="8 6"' : ''} />`);
+  const markers = stops.map((stop, index) => {
+    const [x, y] = toSvg([stop.lat, stop.lng]).split(',');
+    const color = index === 0 ? '#16A34A' : index === stops.length - 1 ? '#2563EB' : '#F59E0B';
+    return `<circle cx="${x}" cy="${y}" r="6" fill="${color}" stroke="#fff" stroke-width="2" />`;
+  });
+
+  return `<svg viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" width="100%" role="img" aria-label="Route map"><rect width="100%" height="100%" fill="#F0FDF4" rx="8" />${lines.join('')}${markers.join('')}</svg>`;
+};
+
+// A self-contained HTML report for printing or saving as PDF
+export const buildReportHtml = ({ result, state, transportTypes, factorSettings, recommendations, analysis }: ReportInput): string => {
+  const breakdown = summariseResultByMode(result);
+  const paths = getRoutePaths(result, state);
+  const stops = [state.start, ...state.via, state.end].filter(stop => stop !== null);
+  const factors = getUsedTransportTypes(result, transportTypes).map(describeFactor);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Trip emissions report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1F2937; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { color: #166534; margin-bottom: 0.25rem; }
+  h2 { color: #166534; font-size: 1.1rem; margin-top: 1.75rem; border-bottom: 1px solid #D1FAE5; padding-bottom: 0.25rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #E5E7EB; }
+  td.number, th.number { text-align: right; }
+  .muted { color: #6B7280; font-size: 0.85rem; }
+  .totals { display: flex; gap: 1rem; }
+  .totals div { flex: 1; background: #F0FDF4; border-radius: 0.5rem; padding: 0.75rem; }
+  .totals strong { display: block; font-size: 1.4rem; color: #15803D; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } }
+</style>
+</head>
+<body>
+<h1>Trip emissions report</h1>
+<p class="muted">Generated ${escapeHtml(new Date().toLocaleString())} · factor set ${escapeHtml(getFactorSet(factorSettings.version).name)} (${escapeHtml(factorSettings.version)}), grid ${factorSettings.gridIntensity} g CO₂/kWh</p>
+
+<h2>Trip</h2>
+<ol>${stops.map(stop => `<li>${escapeHtml(stop.address)}</li>`).join('')}</ol>
+<div class="totals">
+  <div>Distance<strong>${result.distance} km</strong><span class="muted">${result.distanceSource === 'route' ? 'along the route' : result.distanceSource === 'gps-track' ? 'recorded GPS track' : 'estimated, no route available'}</span></div>
+  <div>CO₂ emissions<strong>${result.emissions} kg</strong><span class="muted">${result.roundTrip ? 'round trip' : 'one way'}${(result.passengers ?? 1) > 1 ? `, per person of ${result.passengers}` : ''}${result.vehicleEmissions !== undefined && (result.passengers ?? 1) > 1 ? `; ${result.vehicleEmissions} kg for the whole vehicle` : ''}</span></div>
+  <div>Transport<strong>${escapeHtml(result.transportType)}</strong>${result.duration ? `<span class="muted">about ${Math.round(result.duration)} min</span>` : ''}</div>
+</div>
+
+<h2>Route</h2>
+${renderRouteMap(paths, state)}
+${paths.some(path => path.geometrySource === 'straight-line') ? '<p class="muted">Dashed lines join stops where no routed path was available.</p>' : ''}
+
+<h2>Breakdown by mode</h2>
+<table>
+  <thead><tr><th>Mode</th><th class="number">Distance (km)</th><th class="number">CO₂ (kg)</th><th class="number">Share</th></tr></thead>
+  <tbody>${breakdown.map(row => `<tr><td>${escapeHtml(row.mode)}</td><td class="number">${row.distance.toFixed(2)}</td><td class="number">${row.emissions.toFixed(2)}</td><td class="number">${result.emissions > 0 ? Math.round((row.emissions / result.emissions) * 100) : 0}%</td></tr>`).join('')}</tbody>
+</table>
+
+<h2>Eco analysis</h2>
+<ul>${recommendations.map(recommendation => `<li>${escapeHtml(recommendation.message)}</li>`).join('')}</ul>
+${analysis ? `<p>${escapeHtml(analysis.summary)}</p>
+<ul>${analysis.alternatives.map(alternative => `<li><strong>${escapeHtml(alternative.mode)}</strong>${alternative.savings !== null ? ` — saves ${alternative.savings.toFixed(2)} kg CO₂` : ''}${alternative.note ? `: ${escapeHtml(alternative.note)}` : ''}</li>`).join('')}</ul>
+${analysis.tips.length > 0 ? `<ul>${analysis.tips.map(tip => `<li>${escapeHtml(tip)}</li>`).join('')}</ul>` : ''}
+<p class="muted">AI-generated text; savings figures are from this calculator's own factors.</p>` : ''}
+
+<h2>Emission factors</h2>
+<table>
+  <thead><tr><th>Mode</th><th class="number">g CO₂/km</th><th>Source</th><th class="number">Year</th></tr></thead>
+  <tbody>${factors.map(factor => `<tr><td>${escapeHtml(factor.name)}</td><td class="number">${factor.gPerKm}</td><td>${escapeHtml(factor.source)}</td><td class="number">${factor.year}</td></tr>`).join('')}</tbody>
+</table>
+</body>
+</html>
+`;
+};
+
+// Open the report in a new window and bring up the print dialog (where it can be saved as PDF)
+export const openPrintableReport = (html: string): boolean => {
+  const report = window.open('', '_blank');
+  if (!report) return false;
+  report.document.open();
+  report.document.write(html);
+  report.document.close();
+  report.focus();
+  // Some browsers have already finished loading document.write content by now
+  if (report.document.readyState === 'complete') {
+    report.print();
+  } else {
+    report.onload = () => report.print();
+  }
+  return true;
+};
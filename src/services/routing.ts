@@ -0,0 +1,144 @@
+import type { LatLngTuple, Location, RoutingProfile } from '../types';
+import { apiUrl } from './api';
+
+export interface RouteResult {
+  distance: number; // km along the path
+  duration: number; // minutes
+  geometry: LatLngTuple[];
+  provider: string;
+}
+
+export interface RoutingProvider {
+  name: string;
+  getRoute: (origin: Location, destination: Location, profile: RoutingProfile) => Promise<RouteResult | null>;
+}
+
+// Decode an encoded polyline (Google / OSRM "polyline" format) into [lat, lng] pairs
+export const decodePolyline = (encoded: string, precision = 5): LatLngTuple[] => {
+  const factor = Math.pow(10, precision);
+  const points: LatLngTuple[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    points.push([lat / factor, lng / factor]);
+  }
+
+  return points;
+};
+
+const googleTravelModes: Record<RoutingProfile, string> = {
+  driving: 'driving',
+  transit: 'transit',
+  walking: 'walking',
+  cycling: 'bicycling'
+};
+
+export interface DirectionsResponse {
+  status: string;
+  routes?: {
+    legs: { distance: { value: number }; duration: { value: number } }[];
+    overview_polyline: { points: string };
+  }[];
+}
+
+// The first route of a Directions API response, or null when it has none
+export const parseDirectionsRoute = (directions: DirectionsResponse): RouteResult | null => {
+  if (directions.status !== "OK" || !directions.routes || directions.routes.length === 0) {
+    return null;
+  }
+
+  const route = directions.routes[0];
+  let meters = 0;
+  let seconds = 0;
+  for (const leg of route.legs) {
+    meters += leg.distance.value;
+    seconds += leg.duration.value;
+  }
+
+  return {
+    distance: meters / 1000,
+    duration: seconds / 60,
+    geometry: decodePolyline(route.overview_polyline.points),
+    provider: 'Google Directions'
+  };
+};
+
+// Routing through the Google Maps Directions API, via the API server (the configured one unless apiBase is given)
+export const createGoogleRoutingProvider = (apiBase?: string): RoutingProvider => ({
+  name: 'Google Directions',
+  getRoute: async (origin, destination, profile) => {
+    try {
+      const response = await fetch(apiUrl('/api/directions', {
+        origin: `${origin.lat},${origin.lng}`,
+        destination: `${destination.lat},${destination.lng}`,
+        mode: googleTravelModes[profile]
+      }, apiBase));
+      return parseDirectionsRoute(await response.json());
+    } catch (error) {
+      console.error("Error fetching route:", error);
+      return null;
+    }
+  }
+});
+
+// OSRM has no transit network, so transit trips are routed along the road network
+const osrmProfiles: Record<RoutingProfile, string> = {
+  driving: 'driving',
+  transit: 'driving',
+  walking: 'foot',
+  cycling: 'cycling'
+};
+
+// Routing through any OSRM-compatible HTTP service (a public or local OSRM instance, or a test stand-in)
+export const createOsrmRoutingProvider = (baseUrl: string): RoutingProvider => ({
+  name: 'OSRM',
+  getRoute: async (origin, destination, profile) => {
+    try {
+      const coordinates = `${origin.lng},${origin.lat};${destination.lng},${destination.lat}`;
+      const response = await fetch(
+        `${baseUrl.replace(/\/$/, '')}/route/v1/${osrmProfiles[profile]}/${coordinates}?overview=full&geometries=polyline`
+      );
+      const data = await response.json();
+
+      if (data.code !== "Ok" || !data.routes || data.routes.length === 0) {
+        console.warn("No route found:", data.code);
+        return null;
+      }
+
+      const route = data.routes[0];
+      return {
+        distance: route.distance / 1000,
+        duration: route.duration / 60,
+        geometry: decodePolyline(route.geometry),
+        provider: 'OSRM'
+      };
+    } catch (error) {
+      console.error("Error fetching route:", error);
+      return null;
+    }
+  }
+});
+
+// Pick the routing provider from the Vite environment (VITE_ROUTING_PROVIDER / VITE_ROUTING_URL)
+export const createRoutingProvider = (): RoutingProvider => {
+  if (import.meta.env.VITE_ROUTING_PROVIDER === 'osrm') {
+    return createOsrmRoutingProvider(import.meta.env.VITE_ROUTING_URL || 'https://router.project-osrm.org');
+  }
+  return createGoogleRoutingProvider();
+};
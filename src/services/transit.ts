@@ -0,0 +1,289 @@
+import type { LegEmission, LegMode, LatLngTuple, Location, TransitInfo, TransitItinerary, TransportType } from '../types';
+import { decodePolyline } from './routing';
+import { apiUrl } from './api';
+
+// When a transit trip should leave or arrive; unset means leaving now
+export interface TransitTime {
+  type: 'depart-at' | 'arrive-by';
+  time: number; // ms since the epoch
+}
+
+// What makes an itinerary stand out among the alternatives for a trip
+export type ItineraryLabel = 'fastest' | 'fewest-transfers' | 'least-walking' | 'lowest-co2';
+
+export const itineraryLabels: Record<ItineraryLabel, string> = {
+  fastest: 'Fastest',
+  'fewest-transfers': 'Fewest transfers',
+  'least-walking': 'Least walking',
+  'lowest-co2': 'Lowest CO₂'
+};
+
+type LegSchedule = Pick<LegEmission, 'duration' | 'departureTime' | 'arrivalTime' | 'departureStop' | 'arrivalStop' | 'headsign' | 'color'>;
+
+interface DirectionsTime {
+  value: number; // unix seconds
+  text: string;
+}
+
+interface DirectionsStep {
+  travel_mode: string;
+  distance: { value: number; text: string };
+  duration: { value: number; text: string };
+  polyline?: { points: string };
+  transit_details?: {
+    line: { short_name?: string; name?: string; color?: string; vehicle: { name: string; type: string } };
+    departure_stop: { name: string };
+    arrival_stop: { name: string };
+    departure_time?: DirectionsTime;
+    arrival_time?: DirectionsTime;
+    headsign?: string;
+    num_stops?: number;
+  };
+}
+
+interface DirectionsRoute {
+  legs: { duration: { value: number }; departure_time?: DirectionsTime; arrival_time?: DirectionsTime; steps: DirectionsStep[] }[];
+}
+
+export interface TransitDirectionsResponse {
+  status: string;
+  routes?: DirectionsRoute[];
+}
+
+interface LegModeInfo {
+  name: string;
+  emissionFactor: number; // grams of CO2 per passenger km
+  color: string;
+  transportTypeId?: string; // catalogue transport type whose factor overrides the default
+}
+
+// Approximate per-passenger factors for Metro Vancouver services (SkyTrain and trolley buses run on BC hydro power);
+// legs mapped to a catalogue mode are rescored with the home region's factor for it
+export const legModes: Record<LegMode, LegModeInfo> = {
+  walk: { name: 'Walk', emissionFactor: 0, color: '#6B7280', transportTypeId: 'walking' },
+  bus: { name: 'Bus', emissionFactor: 31, color: '#2563EB', transportTypeId: 'bus' },
+  trolleybus: { name: 'Trolley Bus', emissionFactor: 8, color: '#0EA5E9' },
+  skytrain: { name: 'SkyTrain', emissionFactor: 11, color: '#7C3AED', transportTypeId: 'skytrain' },
+  'commuter-rail': { name: 'Commuter Rail', emissionFactor: 35, color: '#9333EA' },
+  tram: { name: 'Tram', emissionFactor: 29, color: '#DB2777' },
+  seabus: { name: 'SeaBus', emissionFactor: 60, color: '#0891B2' },
+  ferry: { name: 'Ferry', emissionFactor: 113, color: '#0E7490', transportTypeId: 'ferry' },
+  other: { name: 'Transit', emissionFactor: 31, color: '#F59E0B' }
+};
+
+// Map a Google Directions transit vehicle type (and line name, to tell the SeaBus apart) to a leg mode
+export const getLegMode = (vehicleType: string, lineName = ''): LegMode => {
+  switch (vehicleType) {
+    case 'BUS':
+    case 'INTERCITY_BUS':
+      return 'bus';
+    case 'TROLLEYBUS':
+      return 'trolleybus';
+    case 'SUBWAY':
+    case 'METRO_RAIL':
+    case 'MONORAIL':
+      return 'skytrain';
+    case 'RAIL':
+    case 'HEAVY_RAIL':
+    case 'COMMUTER_TRAIN':
+    case 'HIGH_SPEED_TRAIN':
+    case 'LONG_DISTANCE_TRAIN':
+      return 'commuter-rail';
+    case 'TRAM':
+      return 'tram';
+    case 'FERRY':
+      return /seabus/i.test(lineName) ? 'seabus' : 'ferry';
+    default:
+      return 'other';
+  }
+};
+
+export const createLegEmission = (
+  mode: LegMode,
+  label: string,
+  distance: number,
+  geometry?: LatLngTuple[],
+  schedule: LegSchedule = {}
+): LegEmission => {
+  const emissionFactor = legModes[mode].emissionFactor;
+  return {
+    mode,
+    label,
+    distance: parseFloat(distance.toFixed(2)),
+    emissionFactor,
+    emissions: parseFloat(((distance * emissionFactor) / 1000).toFixed(3)),
+    geometry,
+    ...schedule
+  };
+};
+
+// Re-score legs with the factors of the active catalogue, where it has a matching transport type
+export const applyLegFactors = (legs: LegEmission[], transportTypes: TransportType[]): LegEmission[] => {
+  return legs.map(leg => {
+    const transportType = transportTypes.find(type => type.id === legModes[leg.mode].transportTypeId);
+    if (!transportType) {
+      return leg;
+    }
+    return {
+      ...leg,
+      emissionFactor: transportType.emissionFactor,
+      emissions: parseFloat(((leg.distance * transportType.emissionFactor) / 1000).toFixed(3))
+    };
+  });
+};
+
+// Total distance (km) and emissions (kg CO2) of an itinerary, summed from its legs
+export const sumLegs = (legs: LegEmission[]): { distance: number; emissions: number } => {
+  let distance = 0;
+  let emissions = 0;
+  for (const leg of legs) {
+    distance += leg.distance;
+    emissions += (leg.distance * leg.emissionFactor) / 1000;
+  }
+  return { distance, emissions };
+};
+
+// Vehicles boarded after the first
+export const countTransfers = (itinerary: TransitItinerary): number => Math.max(itinerary.transit.length - 1, 0);
+
+// Km walked to, between and from the vehicles
+export const getWalkingDistance = (itinerary: TransitItinerary): number =>
+  itinerary.legs.filter(leg => leg.mode === 'walk').reduce((sum, leg) => sum + leg.distance, 0);
+
+// The labels each alternative earns; ties go to the earlier (sooner arriving) itinerary
+export const labelItineraries = (itineraries: TransitItinerary[], transportTypes: TransportType[]): ItineraryLabel[][] => {
+  const labels: ItineraryLabel[][] = itineraries.map(() => []);
+  if (itineraries.length < 2) return labels;
+
+  const measures: Record<ItineraryLabel, (itinerary: TransitItinerary) => number> = {
+    fastest: itinerary => itinerary.duration,
+    'fewest-transfers': countTransfers,
+    'least-walking': getWalkingDistance,
+    'lowest-co2': itinerary => sumLegs(applyLegFactors(itinerary.legs, transportTypes)).emissions
+  };
+  for (const [label, measure] of Object.entries(measures) as [ItineraryLabel, (itinerary: TransitItinerary) => number][]) {
+    const values = itineraries.map(measure);
+    const best = Math.min(...values);
+    // Only worth pointing out when the alternatives differ
+    if (values.some(value => value > best + 1e-6)) labels[values.indexOf(best)].push(label);
+  }
+  return labels;
+};
+
+const toIsoTime = (time?: DirectionsTime) => (time ? new Date(time.value * 1000).toISOString() : undefined);
+
+// A Directions API transit route as the transit steps (for the AI prompt) and every leg including walks
+const parseTransitRoute = (route: DirectionsRoute): TransitItinerary | null => {
+  const travelData: TransitInfo[] = [];
+  const legs: LegEmission[] = [];
+  let seconds = 0;
+
+  for (const leg of route.legs) {
+    seconds += leg.duration.value;
+    for (let stepIndex = 0; stepIndex < leg.steps.length; stepIndex++) {
+      const step = leg.steps[stepIndex];
+      const stepDistance = step.distance.value / 1000;
+      const stepGeometry = step.polyline ? decodePolyline(step.polyline.points) : undefined;
+
+      if (step.transit_details) {
+        const transit = step.transit_details;
+        const lineName = transit.line.short_name || transit.line.name || transit.line.vehicle.name;
+        const transitInfo: TransitInfo = {
+          mode: transit.line.vehicle.name,
+          vehicle_type: transit.line.vehicle.type,
+          line_name: lineName,
+          departure_stop: transit.departure_stop.name,
+          arrival_stop: transit.arrival_stop.name,
+          transit_distance: stepDistance,
+          departure_time: toIsoTime(transit.departure_time),
+          arrival_time: toIsoTime(transit.arrival_time),
+          headsign: transit.headsign,
+          num_stops: transit.num_stops
+        };
+        legs.push(createLegEmission(getLegMode(transit.line.vehicle.type, lineName), lineName, stepDistance, stepGeometry, {
+          duration: step.duration.value / 60,
+          departureTime: transitInfo.departure_time,
+          arrivalTime: transitInfo.arrival_time,
+          departureStop: transitInfo.departure_stop,
+          arrivalStop: transitInfo.arrival_stop,
+          headsign: transit.headsign,
+          color: transit.line.color
+        }));
+
+        // Walking before transit
+        if (stepIndex > 0 && leg.steps[stepIndex - 1].travel_mode.toLowerCase() === 'walking') {
+          const walkingBefore = leg.steps[stepIndex - 1];
+          transitInfo.walking_before = `${walkingBefore.distance.text} (Duration: ${walkingBefore.duration.text})`;
+        }
+
+        // Walking after transit
+        if (stepIndex < leg.steps.length - 1 && leg.steps[stepIndex + 1].travel_mode.toLowerCase() === 'walking') {
+          const walkingAfter = leg.steps[stepIndex + 1];
+          transitInfo.walking_after = `${walkingAfter.distance.text} (Duration: ${walkingAfter.duration.text})`;
+        }
+
+        travelData.push(transitInfo);
+      } else {
+        // Non-transit steps of a transit itinerary are walks
+        legs.push(createLegEmission('walk', 'Walk', stepDistance, stepGeometry, { duration: step.duration.value / 60 }));
+      }
+    }
+  }
+
+  return travelData.length > 0
+    ? {
+        transit: travelData,
+        legs,
+        duration: seconds / 60,
+        departureTime: toIsoTime(route.legs[0]?.departure_time),
+        arrivalTime: toIsoTime(route.legs[route.legs.length - 1]?.arrival_time)
+      }
+    : null;
+};
+
+// Every transit itinerary in a Directions API response, in the order it recommends; none when it found no route
+export const parseTransitDirections = (directions: TransitDirectionsResponse): TransitItinerary[] => {
+  if (directions.status !== "OK" || !directions.routes || directions.routes.length === 0) {
+    return [];
+  }
+  return directions.routes
+    .map(parseTransitRoute)
+    .filter((itinerary): itinerary is TransitItinerary => itinerary !== null);
+};
+
+// Alternative transit itineraries from the Google Maps Directions API, via the API server
+// (the configured one unless apiBase is given), in the order it recommends
+export const getTransitItineraries = async (
+  origin: Location,
+  destination: Location,
+  time: TransitTime | null = null,
+  apiBase?: string
+): Promise<TransitItinerary[]> => {
+  try {
+    const params: Record<string, string> = {
+      origin: `${origin.lat},${origin.lng}`,
+      destination: `${destination.lat},${destination.lng}`,
+      mode: 'transit',
+      alternatives: 'true'
+    };
+    if (time) params[time.type === 'arrive-by' ? 'arrival_time' : 'departure_time'] = String(Math.round(time.time / 1000));
+    const response = await fetch(apiUrl('/api/directions', params, apiBase));
+    // No routes gives no itineraries rather than an error, to allow fallback
+    return parseTransitDirections(await response.json());
+  } catch (error) {
+    console.error("Error fetching route data:", error);
+    // Don't set error here, just return no itineraries to allow fallback
+    return [];
+  }
+};
+
+// The first transit itinerary for a trip, or null when there is none
+export const getRouteData = async (
+  origin: Location,
+  destination: Location,
+  time: TransitTime | null = null,
+  apiBase?: string
+): Promise<TransitItinerary | null> => {
+  const [itinerary] = await getTransitItineraries(origin, destination, time, apiBase);
+  return itinerary ?? null;
+};
@@ -0,0 +1,94 @@
+import type { EmissionResult, Location, SegmentResult, TransitItinerary, TransportType } from '../types';
+import type { RoutingProvider } from './routing';
+import { combineSegments } from './itinerary';
+import { applyLegFactors, sumLegs } from './transit';
+import { applyTransitLoad, defaultTripOptions, type TripOptions } from './tripOptions';
+import { haversineDistance } from '../utils/geo';
+
+// Distance, duration and emissions of a trip with one transport type (without AI feedback).
+// `transportTypes` should already carry the trip options' per-person factors (see applyTripOptions).
+export const estimateTrip = async (
+  start: Location,
+  end: Location,
+  transportType: TransportType,
+  routingProvider: RoutingProvider,
+  itinerary: TransitItinerary | null,
+  transportTypes: TransportType[] = [],
+  options: TripOptions = defaultTripOptions
+): Promise<EmissionResult> => {
+  const trips = options.roundTrip ? 2 : 1;
+  const passengers = transportType.occupancy ?? options.passengers ?? 1;
+  const tripDetails = {
+    transportType: transportType.name,
+    transportTypeId: transportType.id,
+    passengers,
+    roundTrip: options.roundTrip
+  };
+
+  if (transportType.routingProfile === 'transit' && itinerary) {
+    // Each leg of the transit itinerary gets its own mode-specific factor; the total is summed from the legs
+    const legs = applyLegFactors(applyTransitLoad(itinerary.legs, options.transitLoad), transportTypes);
+    const { distance, emissions } = sumLegs(legs);
+    return {
+      ...tripDetails,
+      distance: parseFloat((distance * trips).toFixed(2)),
+      emissions: parseFloat((emissions * trips).toFixed(2)),
+      distanceSource: 'route',
+      duration: Math.round(itinerary.duration * trips),
+      legs
+    };
+  }
+
+  // Use the distance along the routed path; fall back to the straight line (Haversine) when no route is available.
+  // Modes without a routing profile (flights) always travel the great circle.
+  const route = transportType.routingProfile
+    ? await routingProvider.getRoute(start, end, transportType.routingProfile)
+    : null;
+  const distance = (route ? route.distance : haversineDistance(start.lat, start.lng, end.lat, end.lng)) * trips;
+  const duration = route ? route.duration * trips : (distance / transportType.averageSpeed) * 60;
+
+  const emissions = getModeEmissions(distance, transportType);
+
+  return {
+    ...tripDetails,
+    distance: parseFloat(distance.toFixed(2)),
+    emissions: parseFloat(emissions.toFixed(2)),
+    distanceSource: route ? 'route' : transportType.routingProfile ? 'straight-line' : 'great-circle',
+    duration: Math.round(duration),
+    routeGeometry: route?.geometry,
+    vehicleEmissions: transportType.vehicleEmissionFactor !== undefined
+      ? parseFloat(((distance * transportType.vehicleEmissionFactor) / 1000).toFixed(2))
+      : undefined
+  };
+};
+
+// Kg CO2 per person for a distance with a transport type (its factor is in g per passenger km)
+export const getModeEmissions = (distance: number, transportType: TransportType): number => {
+  return (distance * transportType.emissionFactor) / 1000;
+};
+
+// A trip through ordered stops: one estimate for two stops, otherwise one per segment combined.
+// segmentTypes[i] and itineraries[i] are the transport type and transit itinerary from stops[i] to stops[i + 1].
+export const estimateItinerary = async (
+  stops: Location[],
+  segmentTypes: TransportType[],
+  routingProvider: RoutingProvider,
+  itineraries: (TransitItinerary | null)[],
+  transportTypes: TransportType[] = [],
+  options: TripOptions = defaultTripOptions
+): Promise<EmissionResult> => {
+  if (stops.length === 2) {
+    return estimateTrip(stops[0], stops[1], segmentTypes[0], routingProvider, itineraries[0] ?? null, transportTypes, options);
+  }
+  const segments = await Promise.all(stops.slice(1).map(async (to, index): Promise<SegmentResult> => {
+    const from = stops[index];
+    const segment = await estimateTrip(from, to, segmentTypes[index], routingProvider, itineraries[index] ?? null, transportTypes, options);
+    return { ...segment, from, to };
+  }));
+  return combineSegments(segments);
+};
+
+// Cost of a trip in dollars: the flat fare (per way) where there is one, otherwise fuel/electricity per km
+export const estimateCost = (transportType: TransportType, distance: number, trips = 1): number => {
+  return transportType.fare !== undefined ? transportType.fare * trips : distance * transportType.costPerKm;
+};
@@ -0,0 +1,142 @@
+import type { CommuteSchedule, EmissionResult, Location, SavedTrip } from '../types';
+
+export type Period = 'week' | 'month';
+
+export interface PeriodTotal {
+  start: Date;
+  label: string;
+  emissions: number; // kg CO2
+  distance: number; // km
+  trips: number;
+}
+
+export interface ModeTotal {
+  transportType: string;
+  emissions: number;
+  distance: number;
+  trips: number;
+}
+
+// Personal CO2 budget in kg
+export interface FootprintBudget {
+  weekly: number;
+  monthly: number;
+}
+
+const TRIPS_KEY = 'footprint.trips';
+const BUDGET_KEY = 'footprint.budget';
+
+export const defaultBudget: FootprintBudget = { weekly: 20, monthly: 80 };
+
+export const loadTrips = (): SavedTrip[] => {
+  try {
+    const stored = localStorage.getItem(TRIPS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading trip history:", error);
+    return [];
+  }
+};
+
+export const saveTrips = (trips: SavedTrip[]) => {
+  try {
+    localStorage.setItem(TRIPS_KEY, JSON.stringify(trips));
+  } catch (error) {
+    console.error("Error saving trip history:", error);
+  }
+};
+
+export const loadBudget = (): FootprintBudget => {
+  try {
+    const stored = localStorage.getItem(BUDGET_KEY);
+    return stored ? { ...defaultBudget, ...JSON.parse(stored) } : defaultBudget;
+  } catch (error) {
+    console.error("Error loading footprint budget:", error);
+    return defaultBudget;
+  }
+};
+
+export const saveBudget = (budget: FootprintBudget) => {
+  try {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  } catch (error) {
+    console.error("Error saving footprint budget:", error);
+  }
+};
+
+// The stops a result was calculated for
+export interface TripLocations {
+  start: Location;
+  end: Location;
+  via: Location[];
+}
+
+export const createTrip = (result: EmissionResult, locations: TripLocations, tag?: string, commute?: CommuteSchedule): SavedTrip => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  start: locations.start,
+  end: locations.end,
+  via: locations.via.length > 0 ? locations.via : undefined,
+  transportTypeId: result.transportTypeId,
+  transportType: result.transportType,
+  distance: result.distance,
+  emissions: result.emissions,
+  timestamp: new Date().toISOString(),
+  roundTrip: result.roundTrip || undefined,
+  passengers: result.passengers && result.passengers > 1 ? result.passengers : undefined,
+  tag: tag?.trim() || undefined,
+  commute
+});
+
+// Start of the week (Monday) or month containing a date, at local midnight
+export const getPeriodStart = (date: Date, period: Period): Date => {
+  if (period === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+};
+
+const shiftPeriod = (start: Date, period: Period, amount: number): Date => {
+  return period === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + amount, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + amount * 7);
+};
+
+// Totals for the last `count` weeks or months, oldest first, including the current one
+export const summariseByPeriod = (trips: Pick<SavedTrip, 'timestamp' | 'emissions' | 'distance'>[], period: Period, count: number, now = new Date()): PeriodTotal[] => {
+  const current = getPeriodStart(now, period);
+  const totals: PeriodTotal[] = [];
+
+  for (let i = count - 1; i >= 0; i--) {
+    const start = shiftPeriod(current, period, -i);
+    const end = shiftPeriod(start, period, 1);
+    const inPeriod = trips.filter(trip => {
+      const time = new Date(trip.timestamp);
+      return time >= start && time < end;
+    });
+    totals.push({
+      start,
+      label: period === 'month'
+        ? start.toLocaleDateString(undefined, { month: 'short' })
+        : start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      emissions: inPeriod.reduce((sum, trip) => sum + trip.emissions, 0),
+      distance: inPeriod.reduce((sum, trip) => sum + trip.distance, 0),
+      trips: inPeriod.length
+    });
+  }
+
+  return totals;
+};
+
+// Emissions per transport type, largest first
+export const summariseByMode = (trips: SavedTrip[]): ModeTotal[] => {
+  const totals = new Map<string, ModeTotal>();
+  for (const trip of trips) {
+    const total = totals.get(trip.transportType) || { transportType: trip.transportType, emissions: 0, distance: 0, trips: 0 };
+    total.emissions += trip.emissions;
+    total.distance += trip.distance;
+    total.trips += 1;
+    totals.set(trip.transportType, total);
+  }
+  return [...totals.values()].sort((a, b) => b.emissions - a.emissions);
+};
@@ -0,0 +1,72 @@
+import type { EmissionResult, TransportType } from '../types';
+import { estimateCost } from './tripEstimate';
+
+// What a trip costs besides CO2, and its CO2 in everyday terms
+export interface TripMetrics {
+  duration: number | null; // minutes
+  cost: number; // dollars
+  calories: number; // kcal burned on foot or by bike
+  treeDays: number; // days a mature tree needs to absorb the CO2
+  phoneCharges: number;
+  drivingKm: number | null; // km in a petrol car emitting the same CO2
+  savedVsDriving: number | null; // kg CO2 avoided by not driving the same distance, for modes other than cars
+}
+
+// Energy burned per km by a 70 kg adult, from the Compendium of Physical Activities (walking ~3.5 MET at 5 km/h,
+// cycling ~6.8 MET at 15 km/h, pedal-assisted e-bike about half of that)
+const kcalPerKm: Record<string, number> = {
+  walking: 55,
+  cycling: 30,
+  'e-bike': 15
+};
+// A mature tree absorbs about 21 kg CO2 a year (European Environment Agency)
+const TREE_KG_PER_DAY = 21 / 365;
+// US EPA Greenhouse Gas Equivalencies Calculator, 2024
+const PHONE_CHARGE_KG = 0.0124;
+const REFERENCE_CAR = 'gas-car';
+
+const getCost = (result: EmissionResult, transportTypes: TransportType[]): number => {
+  if (result.segments) {
+    return result.segments.reduce((sum, segment) => sum + getCost(segment, transportTypes), 0);
+  }
+  const transportType = transportTypes.find(type => type.id === result.transportTypeId);
+  return transportType ? estimateCost(transportType, result.distance, result.roundTrip ? 2 : 1) : 0;
+};
+
+// Transit itineraries burn calories on their walking legs only
+const getCalories = (result: EmissionResult): number => {
+  if (result.segments) {
+    return result.segments.reduce((sum, segment) => sum + getCalories(segment), 0);
+  }
+  if (result.legs) {
+    const walked = result.legs.filter(leg => leg.mode === 'walk').reduce((sum, leg) => sum + leg.distance * kcalPerKm.walking, 0);
+    return result.roundTrip ? walked * 2 : walked;
+  }
+  return result.distance * (kcalPerKm[result.transportTypeId] ?? 0);
+};
+
+export const getTripMetrics = (result: EmissionResult, transportTypes: TransportType[]): TripMetrics => {
+  const car = transportTypes.find(type => type.id === REFERENCE_CAR);
+  const carEmissions = car ? (result.distance * car.emissionFactor) / 1000 : null;
+  const isDriving = result.segments
+    ? result.segments.every(segment => transportTypes.find(type => type.id === segment.transportTypeId)?.routingProfile === 'driving')
+    : transportTypes.find(type => type.id === result.transportTypeId)?.routingProfile === 'driving';
+
+  return {
+    duration: result.duration ?? null,
+    cost: parseFloat(getCost(result, transportTypes).toFixed(2)),
+    calories: Math.round(getCalories(result)),
+    treeDays: result.emissions / TREE_KG_PER_DAY,
+    phoneCharges: Math.round(result.emissions / PHONE_CHARGE_KG),
+    drivingKm: car && car.emissionFactor > 0 ? (result.emissions * 1000) / car.emissionFactor : null,
+    savedVsDriving: carEmissions !== null && !isDriving ? parseFloat(Math.max(carEmissions - result.emissions, 0).toFixed(2)) : null
+  };
+};
+
+// e.g. "45 min" or "2 h 5 min"
+export const formatDuration = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  return rounded % 60 === 0 ? `${hours} h` : `${hours} h ${rounded % 60} min`;
+};
@@ -0,0 +1,78 @@
+import type { EmissionResult, LegEmission, TransportType } from '../types';
+
+// How full transit vehicles are compared with the average load their factors assume
+export type TransitLoad = 'quiet' | 'average' | 'busy';
+
+// Who is travelling and how, applied to every transport type when estimating a trip
+export interface TripOptions {
+  passengers: number | null; // people sharing a car; null for each vehicle's usual occupancy
+  roundTrip: boolean; // there and back the same way
+  transitLoad: TransitLoad;
+}
+
+const TRIP_OPTIONS_KEY = 'footprint.tripOptions';
+export const MAX_PASSENGERS = 8;
+
+// Transit factors are averages over the day; each passenger's share grows as the vehicle empties
+// (off-peak runs carry about half the average load, rush-hour runs about twice it)
+export const transitLoads: Record<TransitLoad, { name: string; multiplier: number }> = {
+  quiet: { name: 'Quiet (off-peak)', multiplier: 2 },
+  average: { name: 'Average', multiplier: 1 },
+  busy: { name: 'Busy (rush hour)', multiplier: 0.5 }
+};
+
+export const defaultTripOptions: TripOptions = { passengers: null, roundTrip: false, transitLoad: 'average' };
+
+// Per-person factors for the trip: vehicle factors split between the people in the car and transit factors
+// scaled for the load
+export const applyTripOptions = (transportTypes: TransportType[], options: TripOptions): TransportType[] => {
+  const { multiplier } = transitLoads[options.transitLoad];
+  return transportTypes.map(type => {
+    if (type.vehicleEmissionFactor !== undefined) {
+      const occupancy = options.passengers ?? type.occupancy ?? 1;
+      return { ...type, occupancy, emissionFactor: Math.round((type.vehicleEmissionFactor / occupancy) * 10) / 10 };
+    }
+    if (type.routingProfile === 'transit' && multiplier !== 1) {
+      return { ...type, emissionFactor: Math.round(type.emissionFactor * multiplier * 10) / 10 };
+    }
+    return type;
+  });
+};
+
+// Scale transit legs for the load; legs with a catalogue transport type are rescored with its adjusted factor afterwards
+export const applyTransitLoad = (legs: LegEmission[], transitLoad: TransitLoad): LegEmission[] => {
+  const { multiplier } = transitLoads[transitLoad];
+  if (multiplier === 1) return legs;
+  return legs.map(leg => {
+    if (leg.mode === 'walk') return leg;
+    const emissionFactor = Math.round(leg.emissionFactor * multiplier * 10) / 10;
+    return { ...leg, emissionFactor, emissions: parseFloat(((leg.distance * emissionFactor) / 1000).toFixed(3)) };
+  });
+};
+
+// Distance (km) and emissions (kg CO2 per person) of one way of a result, for commutes counted in one-way trips
+export const getOneWay = (result: EmissionResult): { distance: number; emissions: number } => {
+  const trips = result.roundTrip ? 2 : 1;
+  return {
+    distance: parseFloat((result.distance / trips).toFixed(2)),
+    emissions: parseFloat((result.emissions / trips).toFixed(2))
+  };
+};
+
+export const loadTripOptions = (): TripOptions => {
+  try {
+    const stored = localStorage.getItem(TRIP_OPTIONS_KEY);
+    return stored ? { ...defaultTripOptions, ...JSON.parse(stored) } : defaultTripOptions;
+  } catch (error) {
+    console.error("Error loading trip options:", error);
+    return defaultTripOptions;
+  }
+};
+
+export const saveTripOptions = (options: TripOptions) => {
+  try {
+    localStorage.setItem(TRIP_OPTIONS_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error("Error saving trip options:", error);
+  }
+};
@@ -0,0 +1,127 @@
+import type { EmissionResult, Location } from '../types';
+
+export interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// The calculator inputs that make up a shareable trip
+export interface TripState {
+  start: Location | null;
+  end: Location | null;
+  via: Location[];
+  transportTypeId: string;
+  segmentModes: string[]; // per-segment transport type ids of a multi-stop trip; empty entries use transportTypeId
+  mapView?: MapView;
+}
+
+// Portable JSON form of a trip, for passing trips between tools
+export interface TripJson {
+  type: 'footprint-trip';
+  version: 1;
+  start: Location | null;
+  end: Location | null;
+  via: Location[];
+  transportTypeId: string;
+  segmentModes?: string[];
+  result?: Pick<EmissionResult, 'distance' | 'emissions' | 'transportType' | 'distanceSource'>;
+}
+
+const COORDINATE_PRECISION = 5; // about a metre
+
+const isLocation = (value: unknown): value is Location => {
+  const location = value as Location;
+  return typeof location === 'object' && location !== null
+    && Number.isFinite(location.lat) && Math.abs(location.lat) <= 90
+    && Number.isFinite(location.lng) && Math.abs(location.lng) <= 180
+    && typeof location.address === 'string';
+};
+
+// "lat,lng,address"; the address may itself contain commas
+const encodeLocation = (location: Location): string => {
+  return `${location.lat.toFixed(COORDINATE_PRECISION)},${location.lng.toFixed(COORDINATE_PRECISION)},${location.address}`;
+};
+
+const decodeLocation = (value: string): Location | null => {
+  const [lat, lng, ...address] = value.split(',');
+  const location = { lat: parseFloat(lat), lng: parseFloat(lng), address: address.join(',') };
+  if (!location.address) location.address = `Location at ${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+  return isLocation(location) ? location : null;
+};
+
+// The trip part of the URL hash, without the map view; changes to it are worth a history entry
+export const encodeTripParams = (state: TripState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.start) params.set('from', encodeLocation(state.start));
+  state.via.forEach(stop => params.append('via', encodeLocation(stop)));
+  if (state.end) params.set('to', encodeLocation(state.end));
+  params.set('mode', state.transportTypeId);
+  if (state.segmentModes.some(Boolean)) params.set('legs', state.segmentModes.join(','));
+  return params;
+};
+
+// e.g. #from=49.28570,-123.11180,Waterfront Station&to=...&mode=bus&map=49.2827,-123.1207,13
+export const encodeTripHash = (state: TripState): string => {
+  const params = encodeTripParams(state);
+  if (state.mapView) {
+    params.set('map', `${state.mapView.lat.toFixed(4)},${state.mapView.lng.toFixed(4)},${state.mapView.zoom}`);
+  }
+  // Commas are safe in a fragment and keep the link readable
+  return `#${params.toString().replace(/%2C/g, ',')}`;
+};
+
+// Read a trip from a URL hash; null when the hash doesn't describe one
+export const decodeTripHash = (hash: string): TripState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const transportTypeId = params.get('mode');
+  if (!transportTypeId) return null;
+
+  const start = params.get('from');
+  const end = params.get('to');
+  const [lat, lng, zoom] = (params.get('map') ?? '').split(',').map(Number);
+  return {
+    start: start ? decodeLocation(start) : null,
+    end: end ? decodeLocation(end) : null,
+    via: params.getAll('via').map(decodeLocation).filter((stop): stop is Location => stop !== null),
+    transportTypeId,
+    segmentModes: params.get('legs')?.split(',') ?? [],
+    mapView: Number.isFinite(lat) && Number.isFinite(lng) && Number.isFinite(zoom) && params.has('map') ? { lat, lng, zoom } : undefined
+  };
+};
+
+const toPlainLocation = ({ lat, lng, address }: Location): Location => ({ lat, lng, address });
+
+export const toTripJson = (state: TripState, result?: EmissionResult | null): TripJson => ({
+  type: 'footprint-trip',
+  version: 1,
+  start: state.start && toPlainLocation(state.start),
+  end: state.end && toPlainLocation(state.end),
+  via: state.via.map(toPlainLocation),
+  transportTypeId: state.transportTypeId,
+  segmentModes: state.segmentModes.some(Boolean) ? state.segmentModes : undefined,
+  result: result
+    ? { distance: result.distance, emissions: result.emissions, transportType: result.transportType, distanceSource: result.distanceSource }
+    : undefined
+});
+
+// Read a trip JSON export (fields only the full export has are ignored); null when the text isn't one
+export const parseTripJson = (text: string): TripState | null => {
+  try {
+    const data = JSON.parse(text) as Partial<TripJson>;
+    if (data.type !== 'footprint-trip' || data.version !== 1 || typeof data.transportTypeId !== 'string') return null;
+    if ((data.start !== null && !isLocation(data.start)) || (data.end !== null && !isLocation(data.end))) return null;
+    if (!Array.isArray(data.via) || !data.via.every(isLocation)) return null;
+
+    return {
+      start: data.start ? toPlainLocation(data.start) : null,
+      end: data.end ? toPlainLocation(data.end) : null,
+      via: data.via.map(toPlainLocation),
+      transportTypeId: data.transportTypeId,
+      segmentModes: Array.isArray(data.segmentModes) ? data.segmentModes.filter(mode => typeof mode === 'string') : []
+    };
+  } catch (error) {
+    console.error("Error reading trip JSON:", error);
+    return null;
+  }
+};
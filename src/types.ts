@@ -0,0 +1,177 @@
+export type LatLngTuple = [number, number];
+
+export interface Location {
+  lat: number;
+  lng: number;
+  address: string;
+}
+
+// An intermediate stop of a multi-stop itinerary
+export interface Waypoint extends Location {
+  id: string;
+}
+
+// How the distance of a trip was obtained
+export type DistanceSource = 'route' | 'straight-line' | 'great-circle' | 'gps-track';
+
+// Kind of vehicle (or walking) used for one leg of a multimodal itinerary
+export type LegMode = 'walk' | 'bus' | 'trolleybus' | 'skytrain' | 'commuter-rail' | 'tram' | 'seabus' | 'ferry' | 'other';
+
+export interface LegEmission {
+  mode: LegMode;
+  label: string; // e.g. "99 B-Line" or "Walk"
+  distance: number; // km
+  emissionFactor: number; // grams of CO2 per passenger km
+  emissions: number; // kg CO2
+  geometry?: LatLngTuple[];
+  duration?: number; // minutes
+  // Scheduled transit legs only
+  departureTime?: string; // ISO date-time
+  arrivalTime?: string;
+  departureStop?: string;
+  arrivalStop?: string;
+  headsign?: string;
+  color?: string; // the line's colour, e.g. "#0033A0"
+}
+
+export interface EmissionResult {
+  distance: number; // km, both ways for a round trip
+  emissions: number; // kg CO2 per person
+  transportType: string;
+  transportTypeId: string;
+  distanceSource: DistanceSource;
+  duration?: number; // minutes
+  routeGeometry?: LatLngTuple[];
+  legs?: LegEmission[]; // one way
+  segments?: SegmentResult[];
+  passengers?: number; // people travelling together
+  roundTrip?: boolean;
+  vehicleEmissions?: number; // kg CO2 for the whole vehicle, for modes whose factor covers the vehicle (cars, motorcycles)
+}
+
+// Emissions of one segment between consecutive stops of a multi-stop itinerary
+export interface SegmentResult extends EmissionResult {
+  from: Location;
+  to: Location;
+}
+
+export interface TransitInfo {
+  mode: string;
+  vehicle_type: string; // Google Directions vehicle type, e.g. BUS, SUBWAY, FERRY
+  line_name: string;
+  departure_stop: string;
+  arrival_stop: string;
+  transit_distance: number; // km
+  walking_before?: string;
+  walking_after?: string;
+  departure_time?: string; // ISO date-time
+  arrival_time?: string;
+  headsign?: string;
+  num_stops?: number;
+}
+
+// A transit route from the Directions API: the transit steps (for the AI prompt) and every leg including walks
+export interface TransitItinerary {
+  transit: TransitInfo[];
+  legs: LegEmission[];
+  duration: number; // minutes
+  departureTime?: string; // ISO date-time, when the route is scheduled
+  arrivalTime?: string;
+}
+
+// Network a transport type travels on when asking a routing provider for a path
+export type RoutingProfile = 'driving' | 'transit' | 'walking' | 'cycling';
+
+export interface TransportType {
+  id: string;
+  name: string;
+  emissionFactor: number; // grams of CO2 per passenger km
+  vehicleEmissionFactor?: number; // grams of CO2 per vehicle km, for modes whose factor covers the whole vehicle
+  occupancy?: number; // people the vehicle factor is split between
+  routingProfile: RoutingProfile | null; // null for modes that are not routed on a network, e.g. flights
+  averageSpeed: number; // km/h, used to estimate travel time when the route has no duration
+  costPerKm: number; // dollars per km (fuel or electricity)
+  fare?: number; // flat fare in dollars, replaces the per-km cost
+  source: string;
+  year: number;
+  icon: string; // key for TransportIcon
+}
+
+// How often a trip is repeated as a commute
+export interface CommuteSchedule {
+  daysPerWeek: number;
+  workFromHomeDays: number; // of the days above, days with no commute
+  roundTrip: boolean;
+  weeksPerYear: number;
+}
+
+// A calculated trip kept in the user's local history
+export interface SavedTrip {
+  id: string;
+  start: Location;
+  end: Location;
+  via?: Location[];
+  transportTypeId: string;
+  transportType: string;
+  distance: number; // km
+  emissions: number; // kg CO2 per person
+  timestamp: string; // ISO date
+  roundTrip?: boolean; // distance and emissions cover both ways
+  passengers?: number;
+  tag?: string;
+  commute?: CommuteSchedule;
+  track?: LatLngTuple[]; // thinned path of a trip imported from a GPS recording
+}
+
+// How much of its members' commute data an organisation keeps and shows to its admins
+export interface OrgPrivacySettings {
+  showMemberNames: boolean; // otherwise members appear as "Member 1", "Member 2", ...
+  locationPrecision: 'exact' | 'approximate' | 'none'; // approximate rounds to about 1 km and drops addresses
+  minGroupSize: number; // breakdown rows covering fewer members are merged or hidden
+}
+
+// A commute a member submitted to their organisation
+export interface OrgCommute {
+  id: string;
+  memberId: string;
+  start: Location | null; // null when the organisation doesn't keep locations
+  end: Location | null;
+  transportTypeId: string;
+  transportType: string;
+  distance: number; // km, one way
+  emissions: number; // kg CO2, one way
+  emissionFactor: number; // g CO2 per passenger km the trip was priced with
+  factorSource: string;
+  schedule: CommuteSchedule;
+  submittedAt: string; // ISO date
+}
+
+export interface OrgModeShare {
+  transportType: string;
+  members: number;
+  trips: number; // one-way trips per year
+  share: number; // of all trips, 0-1
+  distance: number; // km per year
+  emissions: number; // kg CO2 per year
+}
+
+export interface OrgDistanceBand {
+  label: string;
+  min: number; // km, one way
+  max: number | null;
+  members: number | null; // null when too few members to show
+}
+
+// Aggregate commuting footprint of an organisation, for its admins
+export interface OrgSummary {
+  organisation: { id: string; name: string; joinCode: string };
+  privacy: OrgPrivacySettings;
+  memberCount: number;
+  respondents: number; // members with at least one commute
+  annualEmissions: number; // kg CO2
+  annualDistance: number; // km
+  perCapita: number; // kg CO2 per respondent per year
+  modeSplit: OrgModeShare[];
+  distanceDistribution: OrgDistanceBand[];
+  members: { label: string; transportTypes: string[]; distance: number; annualEmissions: number }[];
+}
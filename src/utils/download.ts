@@ -0,0 +1,12 @@
+// Save generated text as a file through a temporary download link
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Today's date for file names, e.g. 2024-05-01
+export const fileDate = () => new Date().toISOString().slice(0, 10);
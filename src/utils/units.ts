@@ -0,0 +1,40 @@
+export type DistanceUnit = 'km' | 'mi';
+export type MassUnit = 'kg' | 'lb';
+
+// How distances, CO2 and money are shown; everything is stored and exported in km, kg and the region's currency
+export interface DisplayUnits {
+  distance: DistanceUnit;
+  mass: MassUnit;
+  currency: string; // ISO 4217 code
+}
+
+const KM_PER_MILE = 1.609344;
+const KG_PER_POUND = 0.45359237;
+
+export const metricUnits: DisplayUnits = { distance: 'km', mass: 'kg', currency: 'CAD' };
+
+export const toDisplayDistance = (km: number, unit: DistanceUnit): number => unit === 'mi' ? km / KM_PER_MILE : km;
+export const fromDisplayDistance = (value: number, unit: DistanceUnit): number => unit === 'mi' ? value * KM_PER_MILE : value;
+export const toDisplayMass = (kg: number, unit: MassUnit): number => unit === 'lb' ? kg / KG_PER_POUND : kg;
+export const fromDisplayMass = (value: number, unit: MassUnit): number => unit === 'lb' ? value * KG_PER_POUND : value;
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+export const formatDistance = (km: number, units: DisplayUnits, digits = 1): string =>
+  `${round(toDisplayDistance(km, units.distance), digits)} ${units.distance}`;
+
+export const formatMass = (kg: number, units: DisplayUnits, digits = 2): string =>
+  `${round(toDisplayMass(kg, units.mass), digits)} ${units.mass}`;
+
+// Grams of CO2 per km, shown per mile where miles are used
+export const formatFactor = (gPerKm: number, units: DisplayUnits): string =>
+  units.distance === 'mi' ? `${round(gPerKm * KM_PER_MILE, 1)} g/mi` : `${gPerKm} g/km`;
+
+export const formatMoney = (amount: number, units: DisplayUnits): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: units.currency }).format(amount);
+  } catch (error) {
+    console.error("Error formatting currency:", error);
+    return `${amount.toFixed(2)} ${units.currency}`;
+  }
+};
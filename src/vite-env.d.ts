@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_ROUTING_PROVIDER?: 'google' | 'osrm';
+  readonly VITE_ROUTING_URL?: string;
+  readonly VITE_GEOCODING_PROVIDER?: 'google' | 'nominatim' | 'photon' | 'gazetteer';
+  readonly VITE_GEOCODING_URL?: string;
+  readonly VITE_TILE_URL?: string;
+  readonly VITE_DEFAULT_REGION?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
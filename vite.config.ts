@@ -7,4 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    // Forward API calls to the key-holding server in server/ (npm run server)
+    proxy: {
+      '/api': process.env.API_PROXY_TARGET || 'http://localhost:8787',
+    },
+  },
 });